@@ -0,0 +1,81 @@
+import { useEffect, useState } from 'react';
+import api from './api';
+import type { GameParamDef } from './games';
+import type { TranslationKey } from './i18n';
+
+// Learner ids are the keys of the server's algorithm registry
+export type AlgId = string;
+
+export type ScheduleKind = 'constant' | 'inv' | 'inv_sqrt' | 'exp' | 'piecewise';
+
+export const SCHEDULE_KINDS: ScheduleKind[] = ['constant', 'inv', 'inv_sqrt', 'exp', 'piecewise'];
+
+// Rate `value` at t = 1; `exp` decays by exp(-decay * (t - 1)); `piecewise` switches to values[i] from steps[i] on
+export type ScheduleSpec = {
+  kind: ScheduleKind;
+  value: number;
+  decay?: number;
+  steps?: number[];
+  values?: number[];
+};
+
+export type Schedulable = number | ScheduleSpec;
+
+export type AlgParams = Record<string, Schedulable>;
+
+// What learners observe each round: the opponent's mix, its sampled action, or only their own reward
+export type FeedbackMode = 'expected' | 'sampled' | 'bandit';
+
+export const FEEDBACK_MODES: FeedbackMode[] = ['expected', 'sampled', 'bandit'];
+
+// Same shape as game family parameters; schedulable ones also accept a ScheduleSpec
+export type AlgParamDef = GameParamDef & { schedulable?: boolean };
+
+export type AlgorithmInfo = {
+  id: AlgId;
+  name: string;
+  description: string;
+  feedback: 'full' | 'bandit';
+  params: AlgParamDef[];
+};
+
+const LR: AlgParamDef = { key: 'lr', label: 'Learning rate', default: 0.5, min: 0, max: 10, step: 0.05 };
+
+// Core learners; used until /api/algorithms responds
+export const FALLBACK_ALGORITHMS: AlgorithmInfo[] = [
+  { id: 'hedge', name: 'Hedge (MWU)', description: '', feedback: 'full', params: [{ ...LR, schedulable: true }] },
+  { id: 'regret', name: 'Regret matching', description: '', feedback: 'full', params: [] },
+  {
+    id: 'fp',
+    name: 'Fictitious play (smooth)',
+    description: '',
+    feedback: 'full',
+    params: [{ key: 'temperature', label: 'Softmax temperature', default: 2, min: 1e-4, max: 1000, step: 0.1, schedulable: true }],
+  },
+];
+
+const TRANSLATED_ALGS = [
+  'hedge', 'regret', 'fp', 'omwu', 'ogda', 'extragradient',
+  'exp3', 'exp3ix', 'ucb1', 'egreedy',
+  'qlearn', 'wolf', 'gigawolf', 'lenient',
+];
+
+export function algLabel(a: AlgorithmInfo, t: (key: TranslationKey) => string): string {
+  // learners registered after the translations were written show the server-side name
+  if (TRANSLATED_ALGS.includes(a.id)) return t(`eval.alg.${a.id}` as TranslationKey);
+  return a.name;
+}
+
+export function useAlgorithms() {
+  const [algorithms, setAlgorithms] = useState<AlgorithmInfo[]>(FALLBACK_ALGORITHMS);
+
+  useEffect(() => {
+    api.get('/api/algorithms')
+      .then((res) => { if (Array.isArray(res.data) && res.data.length) setAlgorithms(res.data); })
+      .catch(() => {
+        // keep the core learners when the registry is unreachable
+      });
+  }, []);
+
+  return algorithms;
+}
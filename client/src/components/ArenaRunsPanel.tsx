@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from 'react';
+import api from '../api';
+import { AlgParams, FeedbackMode } from '../algos';
+import { useI18n } from '../i18n';
+
+// A recorded arena run as listed by GET /api/arena/runs
+export type ArenaRun = {
+  id: string;
+  game: string;
+  gameParams: Record<string, number> | null;
+  config: {
+    algA: string;
+    algB: string;
+    paramsA?: AlgParams;
+    paramsB?: AlgParams;
+    feedback?: FeedbackMode;
+    seed?: number;
+    stepsPerTick?: number;
+    ticksPerSecond?: number;
+    maxIter?: number;
+  };
+  record: 'full' | 'downsampled';
+  status: 'live' | 'done' | 'stopped';
+  iter: number;
+  ticks: number;
+  created_at: string;
+};
+
+// Past arena runs with buttons to load their settings into the form or replay them over the socket.
+// `canReplay` tells whether the run's game matches the one the charts are currently set up for.
+const ArenaRunsPanel: React.FC<{
+  refreshKey: number;
+  disabled?: boolean;
+  canReplay: (run: ArenaRun) => boolean;
+  onLoad: (run: ArenaRun) => void;
+  onReplay: (run: ArenaRun) => void;
+}> = ({ refreshKey, disabled, canReplay, onLoad, onReplay }) => {
+  const { t } = useI18n();
+  const [runs, setRuns] = useState<ArenaRun[]>([]);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    api.get('/api/arena/runs')
+      .then((res) => { if (!cancelled) { setRuns(res.data || []); setError(false); } })
+      .catch(() => { if (!cancelled) setError(true); });
+    return () => { cancelled = true; };
+  }, [refreshKey]);
+
+  if (error) return <div className="muted">{t('arena.runs.error')}</div>;
+  if (!runs.length) return <div className="muted">{t('arena.runs.empty')}</div>;
+
+  return (
+    <div className="col" style={{ gap: 8, maxHeight: 320, overflowY: 'auto' }}>
+      {runs.map((run) => (
+        <div key={run.id} className="row" style={{ justifyContent: 'space-between', alignItems: 'center', gap: 12, flexWrap: 'wrap', borderBottom: '1px solid rgba(148, 163, 184, 0.2)', paddingBottom: 6 }}>
+          <div className="col" style={{ gap: 2 }}>
+            <div>{run.game} · {run.config.algA} vs {run.config.algB} · {t('arena.control.seed')} {run.config.seed ?? '-'}</div>
+            <div className="muted" style={{ fontSize: 12 }}>
+              {new Date(run.created_at).toLocaleString()} · {t('arena.control.time', { t: run.iter })} · {t(`arena.runs.status.${run.status}`)} · {t(`arena.record.${run.record}`)} ({run.ticks})
+            </div>
+          </div>
+          <div className="row" style={{ gap: 6 }}>
+            <button onClick={() => onLoad(run)} disabled={disabled}>{t('arena.runs.load')}</button>
+            <button
+              onClick={() => onReplay(run)}
+              disabled={disabled || !run.ticks || !canReplay(run)}
+              title={canReplay(run) ? undefined : t('arena.runs.replayHint')}
+            >
+              {t('arena.runs.replay')}
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ArenaRunsPanel;
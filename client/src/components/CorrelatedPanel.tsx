@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import api from '../api';
+import { useI18n } from '../i18n';
+
+type Analysis = {
+  gap: { maxIncentive: number; worst: { player: 'A' | 'B'; from: number | null; to: number } | null };
+  nearest: { l1: number };
+  maxWelfare: { valueA: number; valueB: number };
+  minWelfare: { valueA: number; valueB: number };
+};
+
+type Result = { game: { actsA: string[]; actsB: string[] }; ce: Analysis; cce: Analysis };
+
+// Distance of the empirical joint play to the CE / CCE polytopes (POST /api/solve/correlated)
+const CorrelatedPanel: React.FC<{ body: Record<string, any> | null; disabled?: boolean }> = ({ body, disabled }) => {
+  const { t } = useI18n();
+  const [result, setResult] = useState<Result | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState(false);
+
+  async function analyze() {
+    if (!body) return;
+    try {
+      setLoading(true);
+      setError(false);
+      const res = await api.post('/api/solve/correlated', body);
+      setResult(res.data);
+    } catch {
+      setError(true);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function fmt(x: number) { return Number(x).toFixed(4); }
+
+  function worstLabel(a: Analysis) {
+    const w = a.gap.worst;
+    if (!w || !result) return '-';
+    const acts = w.player === 'A' ? result.game.actsA : result.game.actsB;
+    const from = w.from == null ? '*' : acts[w.from];
+    return `${w.player}: ${from} → ${acts[w.to]}`;
+  }
+
+  return (
+    <div className="col" style={{ gap: 8 }}>
+      <div className="row" style={{ gap: 8, alignItems: 'center' }}>
+        <button onClick={analyze} disabled={disabled || !body || loading}>{t('corr.analyze')}</button>
+        {loading && <span className="muted">{t('corr.loading')}</span>}
+        {error && <span className="muted">{t('corr.error')}</span>}
+      </div>
+      {result && (
+        <div className="row" style={{ gap: 16, flexWrap: 'wrap' }}>
+          {(['ce', 'cce'] as const).map((kind) => {
+            const a = result[kind];
+            return (
+              <div key={kind} className="col" style={{ minWidth: 240, gap: 4 }}>
+                <strong>{t(kind === 'ce' ? 'corr.ce' : 'corr.cce')}</strong>
+                <div>{t('corr.maxIncentive')}: {fmt(a.gap.maxIncentive)} <span className="muted">({worstLabel(a)})</span></div>
+                <div>{t('corr.nearestL1')}: {fmt(a.nearest.l1)}</div>
+                <div>{t('corr.welfareRange')}: {fmt(a.minWelfare.valueA + a.minWelfare.valueB)} – {fmt(a.maxWelfare.valueA + a.maxWelfare.valueB)}</div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CorrelatedPanel;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { GameParamDef } from '../games';
+
+// Numeric inputs for a parameter schema (game family or learner hyperparameters);
+// empty fields fall back to server defaults
+const GameParamsFields: React.FC<{
+  defs?: GameParamDef[];
+  values: Record<string, number>;
+  onChange: (v: Record<string, number>) => void;
+  disabled?: boolean;
+}> = ({ defs, values, onChange, disabled }) => {
+  if (!defs?.length) return null;
+  return (
+    <>
+      {defs.map((d) => (
+        <div className="col" key={d.key} style={{ minWidth: 110 }}>
+          <div className="muted">{d.label} ({d.key})</div>
+          <input
+            type="number"
+            step={d.step ?? (d.integer ? 1 : 0.1)}
+            min={d.min}
+            max={d.max}
+            value={values[d.key] ?? d.default}
+            disabled={disabled}
+            onChange={(e) => {
+              const x = parseFloat(e.target.value);
+              onChange({ ...values, [d.key]: Number.isFinite(x) ? x : d.default });
+            }}
+          />
+        </div>
+      ))}
+    </>
+  );
+};
+
+export default GameParamsFields;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { useI18n } from '../i18n';
+
+export type Score = { you: number; agent: number; wins: number; draws: number; losses: number };
+
+// Move buttons, running scoreboard and the agent's current mixed strategy for human-versus-agent runs
+const HumanPlayPanel: React.FC<{
+  moves: string[]; // the human's action labels
+  agentActs: string[];
+  agentStrategy: number[];
+  score: Score | null;
+  lastRound: { you: string; agent: string } | null;
+  disabled?: boolean;
+  onMove: (action: number) => void;
+}> = ({ moves, agentActs, agentStrategy, score, lastRound, disabled, onMove }) => {
+  const { t } = useI18n();
+  return (
+    <div className="row" style={{ gap: 24, flexWrap: 'wrap', alignItems: 'flex-start' }}>
+      <div className="col" style={{ gap: 8, minWidth: 220 }}>
+        <div className="muted">{t('arena.human.yourMove')}</div>
+        <div className="row" style={{ gap: 8, flexWrap: 'wrap' }}>
+          {moves.map((m, i) => (
+            <button key={m} className="primary" onClick={() => onMove(i)} disabled={disabled}>{m}</button>
+          ))}
+        </div>
+        {lastRound && <div className="muted">{t('arena.human.lastRound', lastRound)}</div>}
+      </div>
+      <div className="col" style={{ gap: 4, minWidth: 200 }}>
+        <div className="muted">{t('arena.human.scoreboard')}</div>
+        <div>{t('arena.human.totals', { you: score ? score.you : 0, agent: score ? score.agent : 0 })}</div>
+        <div className="muted">{t('arena.human.record', { wins: score?.wins ?? 0, draws: score?.draws ?? 0, losses: score?.losses ?? 0 })}</div>
+      </div>
+      <div className="col" style={{ gap: 4, flex: 1, minWidth: 220 }}>
+        <div className="muted">{t('arena.human.agentStrategy')}</div>
+        {agentActs.map((a, i) => {
+          const p = agentStrategy[i] ?? 0;
+          return (
+            <div key={a} className="row" style={{ gap: 8, alignItems: 'center' }}>
+              <span style={{ minWidth: 48 }}>{a}</span>
+              <div style={{ flex: 1, height: 10, borderRadius: 5, background: 'rgba(148, 163, 184, 0.2)' }}>
+                <div style={{ width: `${(p * 100).toFixed(1)}%`, height: '100%', borderRadius: 5, background: '#60a5fa' }} />
+              </div>
+              <span className="muted" style={{ minWidth: 48, textAlign: 'right' }}>{p.toFixed(3)}</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default HumanPlayPanel;
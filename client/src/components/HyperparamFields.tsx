@@ -0,0 +1,46 @@
+import React from 'react';
+import { AlgParamDef, AlgParams } from '../algos';
+import GameParamsFields from './GameParamsFields';
+import ScheduleField from './ScheduleField';
+
+// Form for one learner's hyperparameter schema; schedulable entries get a schedule picker
+const HyperparamFields: React.FC<{
+  defs?: AlgParamDef[];
+  values: AlgParams;
+  onChange: (v: AlgParams) => void;
+  disabled?: boolean;
+}> = ({ defs, values, onChange, disabled }) => {
+  if (!defs?.length) return null;
+  return (
+    <>
+      {defs.map((d) => {
+        const v = values[d.key];
+        if (d.schedulable) {
+          return (
+            <ScheduleField
+              key={d.key}
+              label={`${d.label} (${d.key})`}
+              value={v ?? d.default}
+              min={d.min}
+              max={d.max}
+              step={d.step}
+              disabled={disabled}
+              onChange={(x) => onChange({ ...values, [d.key]: x })}
+            />
+          );
+        }
+        return (
+          <GameParamsFields
+            key={d.key}
+            defs={[d]}
+            values={typeof v === 'number' ? { [d.key]: v } : {}}
+            disabled={disabled}
+            onChange={(x) => onChange({ ...values, ...x })}
+          />
+        );
+      })}
+    </>
+  );
+};
+
+export default HyperparamFields;
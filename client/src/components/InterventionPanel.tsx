@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { AlgId, AlgorithmInfo, algLabel } from '../algos';
+import { useI18n } from '../i18n';
+
+export type InterventionKind = 'retune' | 'swap' | 'perturb' | 'reset';
+
+// An applied intervention as broadcast in a tick's `events`
+export type ArenaEvent = {
+  iter: number;
+  kind: InterventionKind;
+  side?: 'A' | 'B';
+  alg?: string;
+  params?: Record<string, unknown>;
+  noise?: number;
+  applied: boolean;
+};
+
+const KINDS: InterventionKind[] = ['retune', 'swap', 'perturb', 'reset'];
+
+export function describeEvent(e: ArenaEvent, t: ReturnType<typeof useI18n>['t']): string {
+  const what = t(`arena.intervene.kind.${e.kind}`);
+  const detail = e.kind === 'swap' ? e.alg : e.kind === 'retune' && e.params?.lr != null ? `lr=${e.params.lr}` : e.kind === 'perturb' && e.noise ? `±${e.noise}` : '';
+  return [e.side, what, detail, e.applied ? '' : t('arena.intervene.skipped')].filter(Boolean).join(' ');
+}
+
+// Form for mid-run interventions on a live backend run, plus the log of the ones applied so far.
+// `onApply` sends the body of an `intervene` command and reports the error code, if any.
+const InterventionPanel: React.FC<{
+  algorithms: AlgorithmInfo[];
+  events: ArenaEvent[];
+  disabled?: boolean;
+  onApply: (body: Record<string, unknown>, onError: (error: string) => void) => void;
+}> = ({ algorithms, events, disabled, onApply }) => {
+  const { t } = useI18n();
+  const [kind, setKind] = useState<InterventionKind>('retune');
+  const [side, setSide] = useState<'A' | 'B'>('B');
+  const [lr, setLr] = useState<number>(0.5);
+  const [alg, setAlg] = useState<AlgId>('regret');
+  const [noise, setNoise] = useState<number>(0.1);
+  const [at, setAt] = useState<string>(''); // empty: apply now
+  const [error, setError] = useState<string | null>(null);
+
+  function apply() {
+    const body: Record<string, unknown> = { kind };
+    if (kind !== 'perturb') body.side = side;
+    if (kind === 'retune') body.lr = lr;
+    if (kind === 'swap') body.alg = alg;
+    if (kind === 'perturb') body.noise = noise;
+    if (at.trim()) body.at = Number(at);
+    setError(null);
+    onApply(body, setError);
+  }
+
+  return (
+    <div className="col" style={{ gap: 10 }}>
+      <div className="row" style={{ gap: 12, flexWrap: 'wrap', alignItems: 'flex-end' }}>
+        <div className="col" style={{ minWidth: 140 }}>
+          <div className="muted">{t('arena.intervene.kindLabel')}</div>
+          <select value={kind} onChange={(e) => setKind(e.target.value as InterventionKind)} disabled={disabled}>
+            {KINDS.map((k) => <option key={k} value={k}>{t(`arena.intervene.kind.${k}`)}</option>)}
+          </select>
+        </div>
+        {kind !== 'perturb' && (
+          <div className="col" style={{ minWidth: 100 }}>
+            <div className="muted">{t('arena.intervene.side')}</div>
+            <select value={side} onChange={(e) => setSide(e.target.value as 'A' | 'B')} disabled={disabled}>
+              <option value="A">A</option>
+              <option value="B">B</option>
+            </select>
+          </div>
+        )}
+        {kind === 'retune' && (
+          <div className="col" style={{ minWidth: 100 }}>
+            <div className="muted">{t('arena.intervene.lr')}</div>
+            <input type="number" min={0} step={0.05} value={lr} onChange={(e) => setLr(Number(e.target.value))} disabled={disabled} />
+          </div>
+        )}
+        {kind === 'swap' && (
+          <div className="col" style={{ minWidth: 180 }}>
+            <div className="muted">{t('arena.intervene.alg')}</div>
+            <select value={alg} onChange={(e) => setAlg(e.target.value as AlgId)} disabled={disabled}>
+              {algorithms.map((a) => <option key={a.id} value={a.id} title={a.description}>{algLabel(a, t)}</option>)}
+            </select>
+          </div>
+        )}
+        {kind === 'perturb' && (
+          <div className="col" style={{ minWidth: 100 }}>
+            <div className="muted">{t('arena.intervene.noise')}</div>
+            <input type="number" min={0} step={0.05} value={noise} onChange={(e) => setNoise(Number(e.target.value))} disabled={disabled} />
+          </div>
+        )}
+        <div className="col" style={{ minWidth: 110 }}>
+          <div className="muted">{t('arena.intervene.at')}</div>
+          <input type="number" min={0} step={1} value={at} placeholder={t('arena.intervene.now')} onChange={(e) => setAt(e.target.value)} disabled={disabled} />
+        </div>
+        <button className="primary" onClick={apply} disabled={disabled}>{t('arena.intervene.apply')}</button>
+      </div>
+      {error && <div className="muted">{t('arena.intervene.error', { error })}</div>}
+      {events.length === 0
+        ? <div className="muted">{t('arena.intervene.empty')}</div>
+        : (
+          <div className="col" style={{ gap: 4, maxHeight: 160, overflowY: 'auto' }}>
+            {events.map((e, i) => (
+              <div key={i} className="muted" style={{ fontSize: 13 }}>
+                {t('arena.control.time', { t: e.iter })} · {describeEvent(e, t)}
+              </div>
+            ))}
+          </div>
+        )}
+    </div>
+  );
+};
+
+export default InterventionPanel;
@@ -0,0 +1,57 @@
+import React, { useEffect, useState } from 'react';
+import api from '../api';
+import { useI18n } from '../i18n';
+
+// A run held by the server that the user owns or was shared, as listed by GET /api/arena/runs/active
+export type LiveRun = {
+  run_id: string;
+  owned: boolean;
+  game: string | null;
+  gameParams: Record<string, number> | null;
+  human: 'A' | 'B' | null;
+  viewers: number;
+  control: { status: 'running' | 'paused' | 'done'; iter: number; maxIter: number | null }; // stopped runs leave the list
+};
+
+// Runs in progress that can be joined as a viewer, e.g. a class following the lecturer's run
+const LiveRunsPanel: React.FC<{
+  refreshKey: number;
+  disabled?: boolean;
+  onWatch: (run: LiveRun) => void;
+}> = ({ refreshKey, disabled, onWatch }) => {
+  const { t } = useI18n();
+  const [runs, setRuns] = useState<LiveRun[]>([]);
+  const [error, setError] = useState(false);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    api.get('/api/arena/runs/active')
+      .then((res) => { if (!cancelled) { setRuns(res.data || []); setError(false); } })
+      .catch(() => { if (!cancelled) setError(true); });
+    return () => { cancelled = true; };
+  }, [refreshKey, version]);
+
+  return (
+    <div className="col" style={{ gap: 8 }}>
+      <div className="row" style={{ justifyContent: 'flex-end' }}>
+        <button onClick={() => setVersion((v) => v + 1)}>{t('arena.live.refresh')}</button>
+      </div>
+      {error && <div className="muted">{t('arena.live.error')}</div>}
+      {!error && !runs.length && <div className="muted">{t('arena.live.empty')}</div>}
+      {runs.map((run) => (
+        <div key={run.run_id} className="row" style={{ justifyContent: 'space-between', alignItems: 'center', gap: 12, flexWrap: 'wrap', borderBottom: '1px solid rgba(148, 163, 184, 0.2)', paddingBottom: 6 }}>
+          <div className="col" style={{ gap: 2 }}>
+            <div>{run.game ?? '-'} · {t(run.owned ? 'arena.live.owned' : 'arena.live.shared')}</div>
+            <div className="muted" style={{ fontSize: 12 }}>
+              {t('arena.control.time', { t: run.control.iter })} · {t(`arena.control.status.${run.control.status}`)} · {t('arena.control.viewers', { n: run.viewers })}
+            </div>
+          </div>
+          <button onClick={() => onWatch(run)} disabled={disabled}>{t('arena.live.watch')}</button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default LiveRunsPanel;
@@ -0,0 +1,171 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import ReactECharts from 'echarts-for-react';
+import * as echarts from 'echarts';
+import api from '../api';
+import { useI18n } from '../i18n';
+
+type Vec = number[];
+type DynamicsId = 'replicator' | 'bnn' | 'logit' | 'br';
+type FieldSample = { x: Vec; y: Vec; dx: Vec; dy: Vec };
+type Equilibrium = { x: Vec; y: Vec };
+
+const DYNAMICS: DynamicsId[] = ['replicator', 'bnn', 'logit', 'br'];
+const MAX_POINTS = 1000;
+const SQRT3_2 = Math.sqrt(3) / 2;
+
+// Barycentric (p0, p1, p2) -> plane; vertices sit at (0,0), (1,0) and (1/2, sqrt(3)/2)
+function bary(p: Vec): [number, number] {
+  return [p[1] + p[2] / 2, p[2] * SQRT3_2];
+}
+
+function downsample<T>(xs: T[]): T[] {
+  if (xs.length <= MAX_POINTS) return xs;
+  const stride = Math.ceil(xs.length / MAX_POINTS);
+  return xs.filter((_, i) => i % stride === 0 || i === xs.length - 1);
+}
+
+// Arrow from `from` in direction `d`, rescaled to a fixed length so slow regions stay visible
+function arrow(from: [number, number], d: [number, number], len: number) {
+  const m = Math.hypot(d[0], d[1]);
+  if (m < 1e-9) return null;
+  return { coords: [from, [from[0] + (d[0] / m) * len, from[1] + (d[1] / m) * len]] };
+}
+
+// Unit-square phase plot (pA[0], pB[0]) for 2x2 games, barycentric triangle for 3-action games
+const PhasePlot: React.FC<{
+  gameId: string;
+  gameParams: Record<string, number>;
+  actsA: string[];
+  actsB: string[];
+  trajA: Vec[];
+  trajB: Vec[];
+}> = ({ gameId, gameParams, actsA, actsB, trajA, trajB }) => {
+  const { t } = useI18n();
+  const shape = actsA.length === 2 && actsB.length === 2 ? 'square' : actsA.length === 3 && actsB.length === 3 ? 'simplex' : null;
+  const [dynamics, setDynamics] = useState<DynamicsId | ''>('replicator');
+  const [field, setField] = useState<FieldSample[]>([]);
+  const [equilibria, setEquilibria] = useState<Equilibrium[]>([]);
+  const paramsKey = JSON.stringify(gameParams);
+
+  useEffect(() => {
+    setEquilibria([]);
+    if (!shape) return;
+    let cancelled = false;
+    api.post('/api/solve/nash', { game: gameId, gameParams })
+      .then((res) => { if (!cancelled) setEquilibria(res.data?.equilibria ?? []); })
+      .catch(() => {});
+    return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [gameId, paramsKey, shape]);
+
+  useEffect(() => {
+    setField([]);
+    if (!shape || !dynamics) return;
+    let cancelled = false;
+    api.post('/api/dynamics/field', { game: gameId, gameParams, dynamics, resolution: shape === 'square' ? 12 : 14 })
+      .then((res) => { if (!cancelled) setField(res.data?.samples ?? []); })
+      .catch(() => {});
+    return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [gameId, paramsKey, shape, dynamics]);
+
+  const option = useMemo(() => {
+    if (!shape) return null;
+    const series: any[] = [];
+    if (shape === 'square') {
+      series.push({
+        name: t('phase.field'),
+        type: 'lines',
+        coordinateSystem: 'cartesian2d',
+        symbol: ['none', 'arrow'],
+        symbolSize: 6,
+        lineStyle: { color: 'rgba(148, 163, 184, 0.6)', width: 1 },
+        data: field.map((s) => arrow([s.x[0], s.y[0]], [s.dx[0], s.dy[0]], 0.05)).filter(Boolean),
+      });
+      series.push({
+        name: t('phase.trajectory'),
+        type: 'line',
+        showSymbol: false,
+        data: downsample(trajA.map((p, i) => [p[0], trajB[i]?.[0] ?? 0])),
+      });
+      series.push({
+        name: t('phase.equilibria'),
+        type: 'scatter',
+        symbol: 'diamond',
+        symbolSize: 12,
+        itemStyle: { color: '#f97373' },
+        data: equilibria.map((e) => [e.x[0], e.y[0]]),
+      });
+      return {
+        grid: { top: 30, right: 20, bottom: 40, left: 50 },
+        tooltip: { trigger: 'item' },
+        legend: { data: [t('phase.trajectory'), t('phase.equilibria')] },
+        xAxis: { type: 'value', min: 0, max: 1, name: `P(A=${actsA[0]})` },
+        yAxis: { type: 'value', min: 0, max: 1, name: `P(B=${actsB[0]})` },
+        series,
+      };
+    }
+    const edge = [[0, 0], [1, 0], [0.5, SQRT3_2], [0, 0]];
+    series.push({ type: 'line', data: edge, showSymbol: false, silent: true, lineStyle: { color: '#64748b' } });
+    series.push({
+      type: 'scatter',
+      data: edge.slice(0, 3).map((c, i) => ({ value: c, label: { position: i === 2 ? 'top' : 'bottom' } })),
+      symbolSize: 1,
+      silent: true,
+      label: {
+        show: true,
+        color: '#e5e7eb',
+        formatter: (p: any) => (actsA[p.dataIndex] === actsB[p.dataIndex] ? actsA[p.dataIndex] : `${actsA[p.dataIndex]} / ${actsB[p.dataIndex]}`),
+      },
+    });
+    series.push({
+      name: t('phase.field'),
+      type: 'lines',
+      coordinateSystem: 'cartesian2d',
+      symbol: ['none', 'arrow'],
+      symbolSize: 6,
+      lineStyle: { color: 'rgba(148, 163, 184, 0.6)', width: 1 },
+      data: field.map((s) => {
+        const from = bary(s.x);
+        const to = bary(s.x.map((v, i) => v + s.dx[i]));
+        return arrow(from, [to[0] - from[0], to[1] - from[1]], 0.04);
+      }).filter(Boolean),
+    });
+    series.push({ name: t('phase.trajA'), type: 'line', showSymbol: false, data: downsample(trajA.map(bary)) });
+    series.push({ name: t('phase.trajB'), type: 'line', showSymbol: false, data: downsample(trajB.map(bary)) });
+    series.push({
+      name: t('phase.equilibria'),
+      type: 'scatter',
+      symbol: 'diamond',
+      symbolSize: 12,
+      itemStyle: { color: '#f97373' },
+      data: equilibria.flatMap((e) => [bary(e.x), bary(e.y)]),
+    });
+    return {
+      grid: { top: 30, right: 20, bottom: 30, left: 20 },
+      tooltip: { trigger: 'item' },
+      legend: { data: [t('phase.trajA'), t('phase.trajB'), t('phase.equilibria')] },
+      xAxis: { type: 'value', min: -0.05, max: 1.05, show: false },
+      yAxis: { type: 'value', min: -0.05, max: 0.95, show: false },
+      series,
+    };
+  }, [shape, field, equilibria, trajA, trajB, actsA, actsB, t]);
+
+  if (!shape || !option) return <div className="muted">{t('phase.unsupported')}</div>;
+
+  return (
+    <div className="col" style={{ gap: 8 }}>
+      <div className="row" style={{ gap: 8, alignItems: 'center' }}>
+        <div className="muted">{t('phase.dynamics')}</div>
+        <select value={dynamics} onChange={(e) => setDynamics(e.target.value as DynamicsId | '')}>
+          <option value="">{t('phase.none')}</option>
+          {DYNAMICS.map((d) => <option key={d} value={d}>{t(`phase.dyn.${d}` as const)}</option>)}
+        </select>
+        {shape === 'simplex' && <span className="muted">{t('phase.symmetricNote')}</span>}
+      </div>
+      <ReactECharts echarts={echarts} option={option} notMerge style={{ height: 360 }} />
+    </div>
+  );
+};
+
+export default PhasePlot;
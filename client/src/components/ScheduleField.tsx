@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { Schedulable, SCHEDULE_KINDS, ScheduleKind, ScheduleSpec } from '../algos';
+import { useI18n } from '../i18n';
+
+function asSpec(v: Schedulable): ScheduleSpec {
+  return typeof v === 'number' ? { kind: 'constant', value: v } : v;
+}
+
+function formatPieces(s: ScheduleSpec): string {
+  return (s.steps ?? []).map((t, i) => `${t}:${s.values?.[i]}`).join(', ');
+}
+
+// "100:0.3, 500:0.05" -> steps [100, 500], values [0.3, 0.05]; malformed or unordered entries are dropped
+function parsePieces(text: string): { steps: number[]; values: number[] } {
+  const steps: number[] = [];
+  const values: number[] = [];
+  for (const part of text.split(',')) {
+    const [t, v] = part.split(':').map((x) => Number(x.trim()));
+    if (!Number.isInteger(t) || t <= 1 || !Number.isFinite(v)) continue;
+    if (steps.length && t <= steps[steps.length - 1]) continue;
+    steps.push(t);
+    values.push(v);
+  }
+  return { steps, values };
+}
+
+// A learning rate or temperature that is either constant or follows a schedule over t
+const ScheduleField: React.FC<{
+  label: string;
+  value: Schedulable;
+  min?: number;
+  max?: number;
+  step?: number;
+  onChange: (v: Schedulable) => void;
+  disabled?: boolean;
+}> = ({ label, value, min, max, step, onChange, disabled }) => {
+  const { t } = useI18n();
+  const spec = asSpec(value);
+  const [piecesText, setPiecesText] = useState(formatPieces(spec));
+
+  const emit = (next: ScheduleSpec) => onChange(next.kind === 'constant' ? next.value : next);
+
+  const setKind = (kind: ScheduleKind) => {
+    if (kind === 'exp') emit({ kind, value: spec.value, decay: spec.decay ?? 0.001 });
+    else if (kind === 'piecewise') emit({ kind, value: spec.value, ...parsePieces(piecesText) });
+    else emit({ kind, value: spec.value });
+  };
+
+  return (
+    <div className="col" style={{ minWidth: 180 }}>
+      <div className="muted">{label}</div>
+      <div className="row" style={{ gap: 6 }}>
+        <input
+          type="number"
+          step={step ?? 0.1}
+          min={min}
+          max={max}
+          value={spec.value}
+          disabled={disabled}
+          style={{ width: 80 }}
+          onChange={(e) => {
+            const x = parseFloat(e.target.value);
+            if (Number.isFinite(x)) emit({ ...spec, value: x });
+          }}
+        />
+        <select value={spec.kind} disabled={disabled} onChange={(e) => setKind(e.target.value as ScheduleKind)}>
+          {SCHEDULE_KINDS.map((k) => <option key={k} value={k}>{t(`schedule.${k}` as const)}</option>)}
+        </select>
+      </div>
+      {spec.kind === 'exp' && (
+        <input
+          type="number"
+          step={0.0005}
+          min={0}
+          value={spec.decay ?? 0}
+          disabled={disabled}
+          title={t('schedule.decay')}
+          placeholder={t('schedule.decay')}
+          onChange={(e) => {
+            const x = parseFloat(e.target.value);
+            emit({ ...spec, decay: Number.isFinite(x) && x >= 0 ? x : 0 });
+          }}
+        />
+      )}
+      {spec.kind === 'piecewise' && (
+        <input
+          value={piecesText}
+          disabled={disabled}
+          placeholder={t('schedule.pieces')}
+          title={t('schedule.pieces')}
+          onChange={(e) => {
+            setPiecesText(e.target.value);
+            emit({ ...spec, ...parsePieces(e.target.value) });
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ScheduleField;
@@ -0,0 +1,128 @@
+import { useCallback, useEffect, useState } from 'react';
+import api from './api';
+import type { TranslationKey } from './i18n';
+
+export type GameParamDef = {
+  key: string;
+  label: string;
+  default: number;
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  step?: number; // input granularity (defaults to 1 for integers, 0.1 otherwise)
+};
+
+export type GameSpec = {
+  id: string;
+  name: string;
+  actsA: string[];
+  actsB: string[];
+  A: number[][]; // payoff for player A (row player)
+  B: number[][]; // payoff for player B (column player)
+  zeroSum: boolean;
+  builtin: boolean;
+  description?: string;
+  paramDefs?: GameParamDef[]; // parameter schema of built-in families
+  params?: Record<string, number>; // resolved parameter values
+};
+
+// Built-in games shipped by the server; used until /api/games responds
+export const FALLBACK_GAMES: GameSpec[] = [
+  {
+    id: 'rps',
+    name: 'Rock-Paper-Scissors',
+    actsA: ['R', 'P', 'S'],
+    actsB: ['R', 'P', 'S'],
+    A: [
+      [0, -1, 1],
+      [1, 0, -1],
+      [-1, 1, 0],
+    ],
+    B: [
+      [0, 1, -1],
+      [-1, 0, 1],
+      [1, -1, 0],
+    ],
+    zeroSum: true,
+    builtin: true,
+  },
+  {
+    id: 'mp',
+    name: 'Matching Pennies',
+    actsA: ['H', 'T'],
+    actsB: ['H', 'T'],
+    A: [
+      [1, -1],
+      [-1, 1],
+    ],
+    B: [
+      [-1, 1],
+      [1, -1],
+    ],
+    zeroSum: true,
+    builtin: true,
+  },
+  {
+    id: 'pd',
+    name: "Prisoner's Dilemma",
+    actsA: ['C', 'D'],
+    actsB: ['C', 'D'],
+    A: [
+      [3, 0],
+      [5, 1],
+    ],
+    B: [
+      [3, 5],
+      [0, 1],
+    ],
+    zeroSum: false,
+    builtin: true,
+  },
+];
+
+const TRANSLATED_GAMES = ['rps', 'mp', 'pd'];
+
+export function gameLabel(g: GameSpec, t: (key: TranslationKey) => string): string {
+  // built-ins keep their translated names; user games show their stored name
+  if (g.builtin && TRANSLATED_GAMES.includes(g.id)) return t(`arena.control.${g.id}` as TranslationKey);
+  return g.name;
+}
+
+export function useGames() {
+  const [games, setGames] = useState<GameSpec[]>(FALLBACK_GAMES);
+
+  const refresh = useCallback(async () => {
+    try {
+      const res = await api.get('/api/games');
+      if (Array.isArray(res.data) && res.data.length) setGames(res.data);
+    } catch {
+      // keep the built-in list when the registry is unreachable
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { games, refresh };
+}
+
+// Matrices of a parameterized family depend on its params, so rebuild them server-side
+export function useResolvedGame(games: GameSpec[], id: string, params: Record<string, number>): GameSpec {
+  const listed = games.find((g) => g.id === id) ?? games[0];
+  const [resolved, setResolved] = useState<GameSpec>(listed);
+  const paramsKey = JSON.stringify(params);
+
+  useEffect(() => {
+    setResolved(listed);
+    if (!listed.paramDefs?.length) return;
+    let cancelled = false;
+    api.get(`/api/games/${encodeURIComponent(listed.id)}`, { params })
+      .then((res) => { if (!cancelled) setResolved({ ...listed, ...res.data }); })
+      .catch(() => {});
+    return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [listed, paramsKey]);
+
+  return resolved;
+}
@@ -52,7 +52,7 @@ const en = {
   'arena.avgRewardTitle': 'Average Reward (P1)',
   'arena.avgRewardSubtitle': 'Smoothed rewards over time with a moving window.',
   'arena.strategyTitle': 'Strategy Distribution (P1)',
-  'arena.strategySubtitle': 'Track how the mixed strategy evolves under Hedge updates.',
+  'arena.strategySubtitle': 'Solid lines: current mixed strategy (last iterate); dashed lines: its running time average.',
   'arena.heatTitle': 'Joint Action Frequency',
   'arena.heatSubtitle': 'Empirical distribution over joint actions across the horizon.',
   'arena.control.game': 'Game',
@@ -61,7 +61,12 @@ const en = {
   'arena.control.pd': "Prisoner's Dilemma(2x2)",
   'arena.control.steps': 'Steps',
   'arena.control.seed': 'Seed',
-  'arena.control.lr': 'Learning rate (Hedge)',
+  'arena.control.algA': 'Player A algorithm',
+  'arena.control.algB': 'Player B algorithm',
+  'arena.control.paramsA': 'Player A hyperparameters',
+  'arena.control.paramsB': 'Player B hyperparameters',
+  'arena.control.noParams': 'No hyperparameters',
+  'arena.control.lr': 'Learning rate',
   'arena.control.backend': 'Backend mode',
   'arena.control.backendLabel': 'Use server (Socket.IO)',
   'arena.control.start': 'Start',
@@ -89,21 +94,33 @@ const en = {
   'eval.alg.hedge': 'Hedge',
   'eval.alg.regret': 'Regret Matching',
   'eval.alg.fp': 'Fictitious Play',
+  'eval.alg.omwu': 'Optimistic Hedge (OMWU)',
+  'eval.alg.ogda': 'Optimistic GDA',
+  'eval.alg.extragradient': 'Extragradient',
+  'eval.alg.exp3': 'Exp3 (bandit)',
+  'eval.alg.exp3ix': 'Exp3-IX (bandit)',
+  'eval.alg.ucb1': 'UCB1 (bandit)',
+  'eval.alg.egreedy': 'ε-greedy (bandit)',
+  'eval.alg.qlearn': 'Q-learning (Boltzmann)',
+  'eval.alg.wolf': 'WoLF-PHC',
+  'eval.alg.gigawolf': 'GIGA-WoLF',
+  'eval.alg.lenient': 'Lenient Q-learning',
   'eval.control.seeds': 'Seeds (comma)',
   'eval.control.episodes': 'Episodes',
   'eval.control.stepsPerEp': 'Steps/Ep',
-  'eval.control.lr': 'lr',
   'eval.control.run': 'Run Eval',
   'eval.summary.winA': 'winA',
   'eval.summary.avgRewardA': 'avgRewardA',
   'eval.summary.coopRate': 'coopRate',
   'eval.summary.l2Dist': 'l2Dist',
+  'eval.summary.nashConv': 'NashConv (last)',
+  'eval.summary.avgNashConv': 'NashConv (avg)',
   'eval.section.perStepTitle': 'Per-step Decisions',
   'eval.section.perStepSubtitle': 'Inspect every action taken during evaluation runs.',
   'eval.control.seed': 'Seed',
   'eval.control.episode': 'Episode',
   'eval.downloadTrace': 'Download steps CSV',
-  'eval.noTrace': 'Run an evaluation to see step-level actions.',
+  'eval.noTrace': 'Run an evaluation, then load its steps to see step-level actions.',
   'eval.loadingTrace': 'Loading trace...',
   'eval.latestSteps': 'Latest steps (selected seed/episode)',
   'eval.noSteps': 'No steps recorded yet.',
@@ -115,12 +132,17 @@ const en = {
   'eval.coopSubtitle': 'How often player A chooses cooperative actions in PD.',
   'eval.l2Title': 'L2 Distance to Uniform (A)',
   'eval.l2Subtitle': "How far A's strategy is from the uniform mixed strategy.",
+  'eval.nashConvTitle': 'Exploitability (NashConv)',
+  'eval.nashConvSubtitle': 'Sum of both players\' best-response gains at the end of each episode; 0 means Nash equilibrium.',
+  'eval.series.lastIterate': 'last iterate',
+  'eval.series.timeAvg': 'time average',
   'eval.tooltip.decision': 'seed {seed} · ep {ep}<br/>t = {t}<br/>P{player} played {action}<br/>reward: {reward}',
   'eval.axis.t': 't',
   'eval.axis.player': 'player',
   'eval.axis.avgRewardA': 'avgRewardA',
   'eval.axis.coopRate': 'coopRate',
   'eval.axis.l2Dist': 'l2Dist',
+  'eval.axis.nashConv': 'NashConv',
   'eval.axis.count': 'count',
   'eval.label.a': 'A:',
   'eval.label.b': 'B:',
@@ -156,6 +178,135 @@ const en = {
   'rl.axis.winA': 'winA',
   'common.language': 'Language',
   'common.chartError': 'Chart failed to render.',
+  'corr.title': 'Correlated Equilibrium Check',
+  'corr.arenaSubtitle': 'How far the empirical joint play is from the CE / CCE polytopes.',
+  'corr.evalSubtitle': 'CE / CCE distance of the joint play in the selected seed and episode.',
+  'corr.analyze': 'Analyze joint play',
+  'corr.loading': 'Solving LPs...',
+  'corr.error': 'Analysis failed.',
+  'corr.ce': 'Correlated equilibrium (CE)',
+  'corr.cce': 'Coarse correlated equilibrium (CCE)',
+  'corr.maxIncentive': 'Max incentive to deviate',
+  'corr.nearestL1': 'L1 distance to nearest',
+  'corr.welfareRange': 'Welfare range',
+  'phase.title': 'Phase Portrait',
+  'phase.subtitle': 'Strategy path on the simplex (3 actions) or the unit square (2x2), with the vector field of a dynamics and Nash equilibria.',
+  'phase.dynamics': 'Vector field',
+  'phase.none': 'None',
+  'phase.dyn.replicator': 'Replicator',
+  'phase.dyn.bnn': 'Brown-von Neumann-Nash',
+  'phase.dyn.logit': 'Logit',
+  'phase.dyn.br': 'Best response',
+  'phase.field': 'Vector field',
+  'phase.trajectory': 'Trajectory',
+  'phase.trajA': 'Player A',
+  'phase.trajB': 'Player B',
+  'phase.equilibria': 'Nash equilibria',
+  'phase.symmetricNote': 'Field drawn for symmetric games only (B = Aᵀ), with both players at the same point.',
+  'phase.unsupported': 'Phase plots are available for 2x2 and 3x3 games.',
+  'eval.control.paramsA': 'Player A hyperparameters',
+  'eval.control.paramsB': 'Player B hyperparameters',
+  'eval.control.noParams': 'No hyperparameters',
+  'schedule.constant': 'Constant',
+  'schedule.inv': '1/t',
+  'schedule.inv_sqrt': '1/√t',
+  'schedule.exp': 'Exponential decay',
+  'schedule.piecewise': 'Piecewise',
+  'schedule.decay': 'Decay',
+  'schedule.pieces': 'From t:value, …',
+  'eval.strategyTitle': 'Last Iterate vs Time Average',
+  'eval.strategySubtitle': 'Solid lines: the strategy at step t; dashed lines: its running average over the episode. No-regret guarantees concern the dashed curves.',
+  'feedback.label': 'Feedback',
+  'feedback.expected': 'Expected payoffs',
+  'feedback.sampled': 'Sampled opponent action',
+  'feedback.bandit': 'Own reward only (bandit)',
+  'feedback.expected.hint': 'Learners see the opponent\'s full mixed strategy each round',
+  'feedback.sampled.hint': 'Learners see only the action the opponent actually played',
+  'feedback.bandit.hint': 'Learners see only their own realized payoff; full-information learners use importance-weighted estimates',
+  'arena.control.ticksPerSecond': 'Ticks / second',
+  'arena.control.stepsPerTick': 'Steps / tick',
+  'arena.control.pause': 'Pause',
+  'arena.control.resume': 'Resume',
+  'arena.control.step': 'Step',
+  'arena.control.status.running': 'Running',
+  'arena.control.status.paused': 'Paused',
+  'arena.control.status.done': 'Finished',
+  'arena.control.status.stopped': 'Stopped',
+  'arena.record.label': 'Recording',
+  'arena.record.full': 'Every tick',
+  'arena.record.downsampled': 'Every 10th tick',
+  'arena.runs.title': 'Recorded runs',
+  'arena.runs.subtitle': 'Backend runs are stored on the server; load their settings or replay them at the chosen speed.',
+  'arena.runs.empty': 'No recorded runs yet',
+  'arena.runs.error': 'Could not load recorded runs',
+  'arena.runs.load': 'Load settings',
+  'arena.runs.replay': 'Replay',
+  'arena.runs.replayHint': 'Load this run\'s settings first so the charts use its game',
+  'arena.runs.status.live': 'Live',
+  'arena.runs.status.done': 'Finished',
+  'arena.runs.status.stopped': 'Stopped',
+  'arena.human.players': 'Players',
+  'arena.human.agents': 'Agent vs agent',
+  'arena.human.playA': 'You play A',
+  'arena.human.playB': 'You play B',
+  'arena.human.policy': 'Agent RL policy (optional)',
+  'arena.human.noPolicy': 'No policy loaded: the selected algorithm plays',
+  'arena.human.title': 'Play against the agent',
+  'arena.human.subtitle': 'Pick a move each round; the agent adapts to your play in real time.',
+  'arena.human.yourMove': 'Your move',
+  'arena.human.lastRound': 'Last round: you {you}, agent {agent}',
+  'arena.human.scoreboard': 'Scoreboard',
+  'arena.human.totals': 'You {you} : {agent} Agent',
+  'arena.human.record': 'Won {wins} · Drawn {draws} · Lost {losses}',
+  'arena.human.agentStrategy': 'Agent\'s current strategy',
+  'arena.intervene.title': 'Interventions',
+  'arena.intervene.subtitle': 'Change the live run: new learning rate, another algorithm, perturbed payoffs or a reset, now or at a given step',
+  'arena.intervene.kindLabel': 'Intervention',
+  'arena.intervene.kind.retune': 'learning rate',
+  'arena.intervene.kind.swap': 'swap algorithm',
+  'arena.intervene.kind.perturb': 'perturb payoffs',
+  'arena.intervene.kind.reset': 'reset weights',
+  'arena.intervene.side': 'Player',
+  'arena.intervene.lr': 'Learning rate',
+  'arena.intervene.alg': 'New algorithm',
+  'arena.intervene.noise': 'Noise (±)',
+  'arena.intervene.at': 'At step',
+  'arena.intervene.now': 'now',
+  'arena.intervene.apply': 'Apply',
+  'arena.intervene.error': 'Rejected: {error}',
+  'arena.intervene.empty': 'No interventions yet',
+  'arena.intervene.skipped': '(skipped)',
+  'arena.control.fork': 'Fork',
+  'arena.control.forkHint': 'Branch the run from its current state with the algorithms and hyperparameters set above',
+  'arena.live.title': 'Live runs',
+  'arena.live.subtitle': 'Runs playing on the server that you started or were shared with you; join one as a viewer.',
+  'arena.live.refresh': 'Refresh',
+  'arena.live.error': 'Could not load live runs.',
+  'arena.live.empty': 'No runs in progress.',
+  'arena.live.owned': 'yours',
+  'arena.live.shared': 'shared with you',
+  'arena.live.watch': 'Watch',
+  'arena.control.viewers': '{n} watching',
+  'arena.diag.title': 'Convergence diagnostics',
+  'arena.diag.subtitle': 'Computed by the server each tick: average regret per step, exploitability of the current (solid) and average (dashed) strategies, and strategy entropy (dotted).',
+  'arena.diag.regretA': 'Regret/step A',
+  'arena.diag.regretB': 'Regret/step B',
+  'arena.diag.nashConv': 'Exploitability',
+  'arena.diag.avgNashConv': 'Exploitability (avg)',
+  'arena.diag.entropyA': 'Entropy A',
+  'arena.diag.entropyB': 'Entropy B',
+  'eval.control.cancel': 'Cancel',
+  'eval.progress': '{status} · {pct}%',
+  'eval.status.queued': 'Queued',
+  'eval.status.running': 'Running',
+  'eval.status.done': 'Done',
+  'eval.status.failed': 'Failed',
+  'eval.status.cancelled': 'Cancelled',
+  'eval.startError': 'Could not start the evaluation: {error}',
+  'arena.control.startError': 'The server refused the run: {error}',
+  'eval.loadTrace': 'Load steps',
+  'eval.traceError': 'Could not load the steps: {error}',
+  'eval.resultsError': 'Could not load the results: {error}',
 } as const;
 
 type TranslationKey = keyof typeof en;
@@ -213,7 +364,7 @@ const zh: Record<TranslationKey, string> = {
   'arena.avgRewardTitle': '平均收益（玩家1）',
   'arena.avgRewardSubtitle': '使用滑动窗口平滑的收益曲线。',
   'arena.strategyTitle': '策略分布（玩家1）',
-  'arena.strategySubtitle': '跟踪 Hedge 更新下的混合策略演化。',
+  'arena.strategySubtitle': '实线为当前混合策略（末次迭代），虚线为其时间平均。',
   'arena.heatTitle': '联合动作频率',
   'arena.heatSubtitle': '时间范围内的联合动作经验分布。',
   'arena.control.game': '博弈',
@@ -222,7 +373,12 @@ const zh: Record<TranslationKey, string> = {
   'arena.control.pd': '囚徒困境（2x2）',
   'arena.control.steps': '步数',
   'arena.control.seed': '随机种子',
-  'arena.control.lr': '学习率（Hedge）',
+  'arena.control.algA': '玩家 A 算法',
+  'arena.control.algB': '玩家 B 算法',
+  'arena.control.paramsA': '玩家 A 超参数',
+  'arena.control.paramsB': '玩家 B 超参数',
+  'arena.control.noParams': '无超参数',
+  'arena.control.lr': '学习率',
   'arena.control.backend': '后端模式',
   'arena.control.backendLabel': '使用服务器（Socket.IO）',
   'arena.control.start': '开始',
@@ -250,21 +406,33 @@ const zh: Record<TranslationKey, string> = {
   'eval.alg.hedge': '乘法权重',
   'eval.alg.regret': '后悔匹配',
   'eval.alg.fp': '虚拟对策',
+  'eval.alg.omwu': '乐观乘法权重（OMWU）',
+  'eval.alg.ogda': '乐观梯度下降-上升',
+  'eval.alg.extragradient': '外梯度法',
+  'eval.alg.exp3': 'Exp3（赌博机）',
+  'eval.alg.exp3ix': 'Exp3-IX（赌博机）',
+  'eval.alg.ucb1': 'UCB1（赌博机）',
+  'eval.alg.egreedy': 'ε-贪心（赌博机）',
+  'eval.alg.qlearn': 'Q 学习（Boltzmann）',
+  'eval.alg.wolf': 'WoLF-PHC',
+  'eval.alg.gigawolf': 'GIGA-WoLF',
+  'eval.alg.lenient': '宽容 Q 学习',
   'eval.control.seeds': '种子（逗号分隔）',
   'eval.control.episodes': '轮次',
   'eval.control.stepsPerEp': '每轮步数',
-  'eval.control.lr': '学习率',
   'eval.control.run': '开始评估',
   'eval.summary.winA': 'A 胜率',
   'eval.summary.avgRewardA': 'A 平均收益',
   'eval.summary.coopRate': '合作率',
   'eval.summary.l2Dist': 'L2 距离',
+  'eval.summary.nashConv': 'NashConv（末次迭代）',
+  'eval.summary.avgNashConv': 'NashConv（时间平均）',
   'eval.section.perStepTitle': '逐步决策',
   'eval.section.perStepSubtitle': '检查评估运行期间的每一步动作。',
   'eval.control.seed': '种子',
   'eval.control.episode': '轮次',
   'eval.downloadTrace': '下载步骤 CSV',
-  'eval.noTrace': '运行评估后可查看步骤细节。',
+  'eval.noTrace': '运行评估并加载步骤后可查看步骤细节。',
   'eval.loadingTrace': '加载步骤中...',
   'eval.latestSteps': '最新步骤（所选种子/轮次）',
   'eval.noSteps': '暂无记录。',
@@ -276,12 +444,17 @@ const zh: Record<TranslationKey, string> = {
   'eval.coopSubtitle': 'A 在囚徒困境中选择合作的比例。',
   'eval.l2Title': '距均匀分布的 L2',
   'eval.l2Subtitle': 'A 的策略距离均匀混合策略的程度。',
+  'eval.nashConvTitle': '可利用度（NashConv）',
+  'eval.nashConvSubtitle': '每个回合结束时双方最优反应收益增量之和；为 0 即纳什均衡。',
+  'eval.series.lastIterate': '末次迭代',
+  'eval.series.timeAvg': '时间平均',
   'eval.tooltip.decision': '种子 {seed} · 轮次 {ep}<br/>t = {t}<br/>玩家 {player} 选择 {action}<br/>收益：{reward}',
   'eval.axis.t': 't',
   'eval.axis.player': '玩家',
   'eval.axis.avgRewardA': 'A 平均收益',
   'eval.axis.coopRate': '合作率',
   'eval.axis.l2Dist': 'L2 距离',
+  'eval.axis.nashConv': 'NashConv',
   'eval.axis.count': '计数',
   'eval.label.a': '玩家A：',
   'eval.label.b': '玩家B：',
@@ -317,6 +490,135 @@ const zh: Record<TranslationKey, string> = {
   'rl.axis.winA': 'A 胜率',
   'common.language': '语言',
   'common.chartError': '图表渲染失败。',
+  'corr.title': '相关均衡检验',
+  'corr.arenaSubtitle': '经验联合行动分布与 CE / CCE 多面体的距离。',
+  'corr.evalSubtitle': '所选种子与回合中联合行动的 CE / CCE 距离。',
+  'corr.analyze': '分析联合行动',
+  'corr.loading': '正在求解线性规划...',
+  'corr.error': '分析失败。',
+  'corr.ce': '相关均衡（CE）',
+  'corr.cce': '粗相关均衡（CCE）',
+  'corr.maxIncentive': '最大偏离激励',
+  'corr.nearestL1': '到最近点的 L1 距离',
+  'corr.welfareRange': '社会福利范围',
+  'phase.title': '相位图',
+  'phase.subtitle': '策略在单纯形（3 个动作）或单位正方形（2x2）上的轨迹，叠加动力学向量场与纳什均衡。',
+  'phase.dynamics': '向量场',
+  'phase.none': '无',
+  'phase.dyn.replicator': '复制者动力学',
+  'phase.dyn.bnn': 'Brown-von Neumann-Nash',
+  'phase.dyn.logit': 'Logit 动力学',
+  'phase.dyn.br': '最优反应动力学',
+  'phase.field': '向量场',
+  'phase.trajectory': '轨迹',
+  'phase.trajA': '玩家 A',
+  'phase.trajB': '玩家 B',
+  'phase.equilibria': '纳什均衡',
+  'phase.symmetricNote': '向量场仅对对称博弈（B = Aᵀ）绘制，双方处于同一点。',
+  'phase.unsupported': '相位图仅支持 2x2 与 3x3 博弈。',
+  'eval.control.paramsA': '玩家 A 超参数',
+  'eval.control.paramsB': '玩家 B 超参数',
+  'eval.control.noParams': '无超参数',
+  'schedule.constant': '常数',
+  'schedule.inv': '1/t',
+  'schedule.inv_sqrt': '1/√t',
+  'schedule.exp': '指数衰减',
+  'schedule.piecewise': '分段',
+  'schedule.decay': '衰减率',
+  'schedule.pieces': '自 t:值, …',
+  'eval.strategyTitle': '末次迭代与时间平均',
+  'eval.strategySubtitle': '实线为第 t 步的策略，虚线为本轮内的累计平均。无悔保证针对的是虚线。',
+  'feedback.label': '反馈',
+  'feedback.expected': '期望收益',
+  'feedback.sampled': '采样对手动作',
+  'feedback.bandit': '仅自身收益（赌博机）',
+  'feedback.expected.hint': '学习者每轮可见对手的完整混合策略',
+  'feedback.sampled.hint': '学习者只能看到对手实际采取的动作',
+  'feedback.bandit.hint': '学习者只能看到自身实际收益；全信息算法使用重要性加权估计',
+  'arena.control.ticksPerSecond': '每秒刷新次数',
+  'arena.control.stepsPerTick': '每次刷新步数',
+  'arena.control.pause': '暂停',
+  'arena.control.resume': '继续',
+  'arena.control.step': '单步',
+  'arena.control.status.running': '运行中',
+  'arena.control.status.paused': '已暂停',
+  'arena.control.status.done': '已完成',
+  'arena.control.status.stopped': '已停止',
+  'arena.record.label': '录制',
+  'arena.record.full': '全部刷新',
+  'arena.record.downsampled': '每 10 次刷新',
+  'arena.runs.title': '已录制的运行',
+  'arena.runs.subtitle': '后端运行会保存在服务器上，可载入其设置或按所选速度回放。',
+  'arena.runs.empty': '暂无录制的运行',
+  'arena.runs.error': '无法加载已录制的运行',
+  'arena.runs.load': '载入设置',
+  'arena.runs.replay': '回放',
+  'arena.runs.replayHint': '请先载入该运行的设置，使图表使用对应的博弈',
+  'arena.runs.status.live': '进行中',
+  'arena.runs.status.done': '已完成',
+  'arena.runs.status.stopped': '已停止',
+  'arena.human.players': '对局双方',
+  'arena.human.agents': '智能体对智能体',
+  'arena.human.playA': '你扮演 A',
+  'arena.human.playB': '你扮演 B',
+  'arena.human.policy': '智能体 RL 策略（可选）',
+  'arena.human.noPolicy': '未加载策略：由所选算法对弈',
+  'arena.human.title': '与智能体对弈',
+  'arena.human.subtitle': '每轮选择一个动作，智能体会实时适应你的打法。',
+  'arena.human.yourMove': '你的动作',
+  'arena.human.lastRound': '上一轮：你 {you}，智能体 {agent}',
+  'arena.human.scoreboard': '记分板',
+  'arena.human.totals': '你 {you} : {agent} 智能体',
+  'arena.human.record': '胜 {wins} · 平 {draws} · 负 {losses}',
+  'arena.human.agentStrategy': '智能体当前策略',
+  'arena.intervene.title': '干预',
+  'arena.intervene.subtitle': '修改进行中的运行：调整学习率、更换算法、扰动收益矩阵或重置学习器，可立即生效或指定步数',
+  'arena.intervene.kindLabel': '干预类型',
+  'arena.intervene.kind.retune': '学习率',
+  'arena.intervene.kind.swap': '更换算法',
+  'arena.intervene.kind.perturb': '扰动收益',
+  'arena.intervene.kind.reset': '重置权重',
+  'arena.intervene.side': '玩家',
+  'arena.intervene.lr': '学习率',
+  'arena.intervene.alg': '新算法',
+  'arena.intervene.noise': '噪声幅度（±）',
+  'arena.intervene.at': '生效步数',
+  'arena.intervene.now': '立即',
+  'arena.intervene.apply': '应用',
+  'arena.intervene.error': '被拒绝：{error}',
+  'arena.intervene.empty': '暂无干预',
+  'arena.intervene.skipped': '（未生效）',
+  'arena.control.fork': '分叉',
+  'arena.control.forkHint': '以上方设置的算法与超参数，从当前状态分叉出新的运行',
+  'arena.live.title': '直播对局',
+  'arena.live.subtitle': '服务器上正在进行、由你启动或分享给你的对局；可作为观众加入。',
+  'arena.live.refresh': '刷新',
+  'arena.live.error': '无法加载直播对局。',
+  'arena.live.empty': '当前没有进行中的对局。',
+  'arena.live.owned': '你的',
+  'arena.live.shared': '分享给你',
+  'arena.live.watch': '观看',
+  'arena.control.viewers': '{n} 人观看',
+  'arena.diag.title': '收敛诊断',
+  'arena.diag.subtitle': '由服务器每次刷新计算：每步平均遗憾、当前策略（实线）与平均策略（虚线）的可利用度，以及策略熵（点线）。',
+  'arena.diag.regretA': '每步遗憾 A',
+  'arena.diag.regretB': '每步遗憾 B',
+  'arena.diag.nashConv': '可利用度',
+  'arena.diag.avgNashConv': '可利用度（平均）',
+  'arena.diag.entropyA': '熵 A',
+  'arena.diag.entropyB': '熵 B',
+  'eval.control.cancel': '取消',
+  'eval.progress': '{status} · {pct}%',
+  'eval.status.queued': '排队中',
+  'eval.status.running': '运行中',
+  'eval.status.done': '已完成',
+  'eval.status.failed': '失败',
+  'eval.status.cancelled': '已取消',
+  'eval.startError': '无法启动评估：{error}',
+  'arena.control.startError': '服务器拒绝了此运行：{error}',
+  'eval.loadTrace': '加载步骤',
+  'eval.traceError': '无法加载步骤：{error}',
+  'eval.resultsError': '无法加载结果：{error}',
 };
 
 const translations: Record<Lang, Record<TranslationKey, string>> = { en, zh };
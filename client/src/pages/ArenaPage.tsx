@@ -2,23 +2,21 @@ import React, { useEffect, useMemo, useRef, useState } from 'react';
 import ReactECharts from 'echarts-for-react';
 import * as echarts from 'echarts';
 import { io, Socket } from 'socket.io-client';
+import { AlgId, AlgorithmInfo, algLabel, AlgParams, FEEDBACK_MODES, FeedbackMode, useAlgorithms } from '../algos';
 import api from '../api';
+import ArenaRunsPanel, { ArenaRun } from '../components/ArenaRunsPanel';
+import CorrelatedPanel from '../components/CorrelatedPanel';
+import HumanPlayPanel, { Score } from '../components/HumanPlayPanel';
+import InterventionPanel, { ArenaEvent, describeEvent } from '../components/InterventionPanel';
+import LiveRunsPanel, { LiveRun } from '../components/LiveRunsPanel';
+import GameParamsFields from '../components/GameParamsFields';
+import HyperparamFields from '../components/HyperparamFields';
+import PhasePlot from '../components/PhasePlot';
+import { GameSpec, gameLabel, useGames, useResolvedGame } from '../games';
 import { useI18n } from '../i18n';
 
 type Vec = number[];
 
-type GameId = 'rps' | 'mp' | 'pd';
-
-type GameSpec = {
-  id: GameId;
-  name: string;
-  acts1: string[];
-  acts2: string[];
-  A1: number[][]; // payoff for player 1
-  A2: number[][]; // payoff for player 2
-  zeroSum?: boolean;
-};
-
 type TickRecord = {
   t: number;
   a1: number;
@@ -27,6 +25,21 @@ type TickRecord = {
   r2: number;
   p1: Vec; // player1 mixed strategy snapshot
   p2: Vec; // player2 mixed strategy snapshot
+  q1: Vec; // time-averaged strategies up to this step
+  q2: Vec;
+  d?: Diagnostics; // backend runs only
+};
+
+// Computed by the server for every tick of a live run (see server/src/arena/diagnostics.ts)
+type Diagnostics = {
+  regretA: number; // cumulative external regret
+  regretB: number;
+  nashConv: number; // exploitability of the current strategies
+  avgNashConv: number; // and of the time-averaged ones
+  entropyA: number;
+  entropyB: number;
+  maRewardA: number; // moving-average reward
+  maRewardB: number;
 };
 
 const ACTION_COLORS = ['#60a5fa', '#f59e0b', '#22c55e', '#a855f7', '#f97373', '#38bdf8', '#14b8a6'];
@@ -64,70 +77,48 @@ function mulberry32(seed: number) {
   };
 }
 
-const GAMES: GameSpec[] = [
-  {
-    id: 'rps',
-    name: 'Rock-Paper-Scissors',
-    acts1: ['R', 'P', 'S'],
-    acts2: ['R', 'P', 'S'],
-    A1: [
-      //    R   P   S
-      /*R*/ [0, -1, 1],
-      /*P*/ [1, 0, -1],
-      /*S*/ [-1, 1, 0],
-    ],
-    A2: [
-      [0, 1, -1],
-      [-1, 0, 1],
-      [1, -1, 0],
-    ],
-    zeroSum: true,
-  },
-  {
-    id: 'mp',
-    name: 'Matching Pennies',
-    acts1: ['H', 'T'],
-    acts2: ['H', 'T'],
-    A1: [
-      /*H*/ [1, -1],
-      /*T*/ [-1, 1],
-    ],
-    A2: [
-      /*H*/ [-1, 1],
-      /*T*/ [1, -1],
-    ],
-    zeroSum: true,
-  },
-  {
-    id: 'pd',
-    name: "Prisoner's Dilemma(2x2)",
-    acts1: ['C', 'D'],
-    acts2: ['C', 'D'],
-    // Payoffs: (R,R)= (3,3), (S,T)= (0,5), (T,S)= (5,0), (P,P)= (1,1)
-    A1: [
-      /*C*/ [3, 0],
-      /*D*/ [5, 1],
-    ],
-    A2: [
-      /*C*/ [3, 5],
-      /*D*/ [0, 1],
-    ],
-    zeroSum: false,
-  },
-];
-
 const defaultSteps = 500;
 
+// Playback state of a backend run, as sent in the socket `status` event
+type RunControl = {
+  status: 'running' | 'paused' | 'done' | 'stopped';
+  iter: number;
+  maxIter: number | null;
+  ticksPerSecond: number;
+  stepsPerTick: number;
+};
+
 const ArenaPage: React.FC = () => {
   const { t } = useI18n();
-  const [gameId, setGameId] = useState<GameId>('rps');
+  const { games } = useGames();
+  const algorithms = useAlgorithms();
+  const [gameId, setGameId] = useState<string>('rps');
+  const [gameParams, setGameParams] = useState<Record<string, number>>({});
   const [steps, setSteps] = useState<number>(defaultSteps);
   const [seed, setSeed] = useState<string>('1234');
-  const [lr, setLr] = useState<number>(0.5); // learning rate for Hedge
+  const [lr, setLr] = useState<number>(0.5); // learning rate of the local Hedge fallback
+  // server-side learners and their hyperparameters; the local fallback always runs Hedge for both players
+  const [algA, setAlgA] = useState<AlgId>('hedge');
+  const [algB, setAlgB] = useState<AlgId>('hedge');
+  const [paramsA, setParamsA] = useState<AlgParams>({});
+  const [paramsB, setParamsB] = useState<AlgParams>({});
+  const [feedback, setFeedback] = useState<FeedbackMode>('expected');
   const [running, setRunning] = useState(false);
   const [backendMode, setBackendMode] = useState(true);
+  const [control, setControl] = useState<RunControl | null>(null);
+  const [ticksPerSecond, setTicksPerSecond] = useState<number>(30);
+  const [stepsPerTick, setStepsPerTick] = useState<number>(10);
+  const [record, setRecord] = useState<'full' | 'downsampled'>('full');
+  const [human, setHuman] = useState<'' | 'A' | 'B'>(''); // side played by the user; '' = agent vs agent
+  const [policy, setPolicy] = useState<{ name: string; net: any } | null>(null); // RL policy for the agent side
+  const [score, setScore] = useState<Score | null>(null);
+  const [replaying, setReplaying] = useState(false); // the followed run is a replay, which cannot be forked
+  const [startError, setStartError] = useState<string | null>(null); // error code of a rejected backend start
+  const [viewers, setViewers] = useState(0); // sockets watching the followed run, this one included
+  const [runsVersion, setRunsVersion] = useState(0); // bumped to reload the recorded runs list
   const socketRef = useRef<Socket | null>(null);
   const runIdRef = useRef<string | null>(null);
+  const watchingRef = useRef(false); // following someone else's run: Stop only leaves it
 
   const recsRef = useRef<TickRecord[]>([]);
   const tRef = useRef(0);
@@ -135,24 +126,30 @@ const ArenaPage: React.FC = () => {
   const w2Ref = useRef<Vec>([]);
   const p1Ref = useRef<Vec>([]);
   const p2Ref = useRef<Vec>([]);
+  const sum1Ref = useRef<Vec>([]); // running sums of the local strategies, for the time average
+  const sum2Ref = useRef<Vec>([]);
   const heatRef = useRef<number[][]>([]);
+  const eventsRef = useRef<Array<ArenaEvent & { index: number }>>([]); // index: record of the tick that carried it
   const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const rngRef = useRef<() => number>(() => Math.random());
 
-  const game = useMemo(() => GAMES.find((g) => g.id === gameId)!, [gameId]);
+  const game = useResolvedGame(games, gameId, gameParams);
 
   function initState(withSeed = seed) {
     // init RNG
     const s = parseInt(withSeed || '1234', 10) || 1234;
     rngRef.current = mulberry32(s);
-    const n1 = game.acts1.length;
-    const n2 = game.acts2.length;
+    const n1 = game.actsA.length;
+    const n2 = game.actsB.length;
     w1Ref.current = Array(n1).fill(1);
     w2Ref.current = Array(n2).fill(1);
     p1Ref.current = normalize([...w1Ref.current]);
     p2Ref.current = normalize([...w2Ref.current]);
+    sum1Ref.current = Array(n1).fill(0);
+    sum2Ref.current = Array(n2).fill(0);
     heatRef.current = Array.from({ length: n1 }, () => Array(n2).fill(0));
     recsRef.current = [];
+    eventsRef.current = [];
     tRef.current = 0;
   }
 
@@ -160,7 +157,7 @@ const ArenaPage: React.FC = () => {
     initState();
     // reset on game or scenario change to keep dimensions consistent
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [gameId]);
+  }, [game]);
 
   // Load scenarios list when entering custom
   // removed scenarios/lessons related effects in rollback
@@ -170,11 +167,11 @@ const ArenaPage: React.FC = () => {
   function stepOnce() {
     const p1 = p1Ref.current;
     const p2 = p2Ref.current;
-    const A1 = game.A1; const A2 = game.A2;
+    const A1 = game.A; const A2 = game.B;
 
     // expected payoff vectors for each pure action
     const u1 = expectedPayoffVector(A1, p2);
-    const u2 = expectedPayoffVector(A2, p1);
+    const u2 = expectedPayoffVector(A2[0].map((_, j) => A2.map((row) => row[j])), p1); // B's actions as rows
 
     // stability: scale by max abs to keep exponentials stable
     const s1 = Math.max(1, ...u1.map((x) => Math.abs(x)));
@@ -187,6 +184,8 @@ const ArenaPage: React.FC = () => {
     w2Ref.current = w2;
     p1Ref.current = normalize(w1);
     p2Ref.current = normalize(w2);
+    sum1Ref.current = sum1Ref.current.map((x, i) => x + p1Ref.current[i]);
+    sum2Ref.current = sum2Ref.current.map((x, j) => x + p2Ref.current[j]);
 
     // sample actions
     const a1 = sampleIndex(p1Ref.current, rngRef.current);
@@ -199,51 +198,51 @@ const ArenaPage: React.FC = () => {
     heatRef.current[a1][a2] += 1;
 
     tRef.current += 1;
-    recsRef.current.push({ t: tRef.current, a1, a2, r1, r2, p1: [...p1Ref.current], p2: [...p2Ref.current] });
+    recsRef.current.push({
+      t: tRef.current, a1, a2, r1, r2,
+      p1: [...p1Ref.current],
+      p2: [...p2Ref.current],
+      q1: sum1Ref.current.map((x) => x / tRef.current),
+      q2: sum2Ref.current.map((x) => x / tRef.current),
+    });
   }
 
   async function start() {
     if (running) return;
     setRunning(true);
+    setReplaying(false);
+    setScore(null);
+    setStartError(null);
     if (backendMode) {
       try {
         const res = await api.post('/api/arena/start', {
-          game: gameId,
-          stepsPerTick: 10,
+          game: game.id,
+          gameParams,
+          algA,
+          algB,
+          stepsPerTick,
+          ticksPerSecond,
+          maxIter: steps, // the server finishes the run, even while this tab is in the background
           seed: parseInt(seed || '1234', 10) || 1234,
-          lr,
+          paramsA,
+          paramsB,
+          feedback,
+          record,
+          human: human || undefined,
+          policy: human && policy ? policy.net : undefined,
         });
         const run_id = res.data?.run_id as string;
         if (!run_id) throw new Error('no run_id');
-        runIdRef.current = run_id;
-        const s = io('http://localhost:4000/arena', {
-          withCredentials: true,
-          query: { run_id },
-        });
-        socketRef.current = s;
-        s.on('tick', (payload: any) => {
-          // append
-          tRef.current = payload.iter;
-          p1Ref.current = payload.distA;
-          p2Ref.current = payload.distB;
-          heatRef.current = payload.jointCounts;
-          recsRef.current.push({
-            t: payload.iter,
-            a1: payload.lastActionA,
-            a2: payload.lastActionB,
-            r1: payload.rewardA,
-            r2: payload.rewardB,
-            p1: [...payload.distA],
-            p2: [...payload.distB],
-          });
-          if (tRef.current >= steps) {
-            stop();
-          } else {
-            setTick((x) => x + 1);
-          }
-        });
-      } catch (e) {
-        // fallback to local if backend unavailable
+        listen(run_id);
+        setRunsVersion((v) => v + 1);
+      } catch (e: any) {
+        // only an unreachable backend falls back to the local simulation; rejections (limits, invalid input)
+        // are shown instead of silently running something else
+        if (e?.response) {
+          setStartError(e.response.data?.error ?? 'internal_error');
+          setRunning(false);
+          return;
+        }
         setBackendMode(false);
         startLocal();
       }
@@ -252,6 +251,115 @@ const ArenaPage: React.FC = () => {
     }
   }
 
+  // Follows a backend run (live or replay) over the /arena socket
+  function listen(run_id: string) {
+    runIdRef.current = run_id;
+    const s = io('http://localhost:4000/arena', {
+      withCredentials: true,
+      query: { run_id },
+    });
+    socketRef.current = s;
+    // appends a tick unless an earlier snapshot (or the parent of a fork) already covered it
+    const apply = (payload: any) => {
+      const last = recsRef.current[recsRef.current.length - 1];
+      if (!payload.iter || (last && payload.iter <= last.t)) return;
+      tRef.current = payload.iter;
+      p1Ref.current = payload.distA;
+      p2Ref.current = payload.distB;
+      heatRef.current = payload.jointCounts;
+      recsRef.current.push({
+        t: payload.iter,
+        a1: payload.lastActionA,
+        a2: payload.lastActionB,
+        r1: payload.rewardA,
+        r2: payload.rewardB,
+        p1: [...payload.distA],
+        p2: [...payload.distB],
+        q1: [...payload.avgDistA],
+        q2: [...payload.avgDistB],
+        d: payload.diagnostics,
+      });
+      for (const e of payload.events ?? []) eventsRef.current.push({ ...e, index: recsRef.current.length - 1 });
+      if (payload.outcomes) {
+        const youA = human !== 'B';
+        setScore({
+          you: youA ? payload.totalRewardA : payload.totalRewardB,
+          agent: youA ? payload.totalRewardB : payload.totalRewardA,
+          wins: youA ? payload.outcomes.winA : payload.outcomes.winB,
+          draws: payload.outcomes.draw,
+          losses: youA ? payload.outcomes.winB : payload.outcomes.winA,
+        });
+      }
+    };
+    s.on('tick', (payload: any) => {
+      apply(payload);
+      setTick((x) => x + 1);
+    });
+    // sent once on join: the current state and a downsampled history of the run so far
+    s.on('snapshot', (snap: { control: RunControl; state: any; history: any[]; viewers: number }) => {
+      for (const payload of snap.history) apply(payload);
+      apply(snap.state);
+      setControl(snap.control);
+      setViewers(snap.viewers);
+      setTick((x) => x + 1);
+    });
+    s.on('viewers', (v: { count: number }) => setViewers(v.count));
+    s.on('status', (c: RunControl) => {
+      setControl(c);
+      // finished, or stopped by another controller or the idle reaper
+      if (c.status === 'done' || c.status === 'stopped') stop();
+    });
+    // the server refuses the handshake without a valid login or for runs the user may not see
+    s.on('connect_error', () => stop());
+  }
+
+  async function replay(run: ArenaRun) {
+    if (running) return;
+    initState(seed);
+    setRunning(true);
+    setReplaying(true);
+    try {
+      const res = await api.post('/api/arena/replay', { run_id: run.id, ticksPerSecond, stepsPerTick: 1 });
+      listen(res.data.run_id as string);
+    } catch {
+      setRunning(false);
+    }
+  }
+
+  // Follows a run that is already playing (own, or shared by its owner) without controlling its lifetime
+  function watch(run: LiveRun) {
+    if (running) return;
+    if (run.game) {
+      setGameId(run.game);
+      setGameParams(run.gameParams ?? {});
+    }
+    initState(seed);
+    setBackendMode(true);
+    setHuman(run.owned ? run.human ?? '' : ''); // only the owner plays the human seat
+    setRunning(true);
+    setReplaying(false);
+    watchingRef.current = true;
+    listen(run.run_id);
+  }
+
+  // Copies a recorded run's settings into the form
+  function loadRun(run: ArenaRun) {
+    const c = run.config;
+    setGameId(run.game);
+    setGameParams(run.gameParams ?? {});
+    setAlgA(c.algA);
+    setAlgB(c.algB);
+    setParamsA(c.paramsA ?? {});
+    setParamsB(c.paramsB ?? {});
+    setFeedback(c.feedback ?? 'expected');
+    if (c.seed != null) setSeed(String(c.seed));
+    if (c.maxIter != null) setSteps(c.maxIter);
+    if (c.stepsPerTick != null) setStepsPerTick(c.stepsPerTick);
+    if (c.ticksPerSecond != null) setTicksPerSecond(c.ticksPerSecond);
+    setRecord(run.record);
+    setBackendMode(true);
+  }
+
   function startLocal() {
     const batch = 20;
     timerRef.current = setInterval(() => {
@@ -263,20 +371,65 @@ const ArenaPage: React.FC = () => {
     }, 0);
   }
 
+  // Playback commands for the backend run; the ack carries the updated playback state
+  function command(cmd: 'pause' | 'resume' | 'step' | 'speed' | 'move' | 'intervene', args: Record<string, unknown> = {}, onError?: (error: string) => void) {
+    socketRef.current?.emit(cmd, args, (res: { control?: RunControl; error?: string }) => {
+      if (res?.control) setControl(res.control);
+      if (res?.error) onError?.(res.error);
+    });
+  }
+
+  // Reads a result downloaded from the RL page and keeps the policy of the agent's side
+  async function loadPolicyFile(file: File | null, agentSide: 'A' | 'B') {
+    if (!file) { setPolicy(null); return; }
+    try {
+      const data = JSON.parse(await file.text());
+      const net = agentSide === 'A' ? data.policyA : data.policyB;
+      setPolicy(net ? { name: file.name, net } : null);
+    } catch {
+      setPolicy(null);
+    }
+  }
+
+  function changeSpeed(speed: { ticksPerSecond?: number; stepsPerTick?: number }) {
+    if (speed.ticksPerSecond != null) setTicksPerSecond(speed.ticksPerSecond);
+    if (speed.stepsPerTick != null) setStepsPerTick(speed.stepsPerTick);
+    command('speed', speed);
+  }
+
   async function stop() {
     if (timerRef.current) clearInterval(timerRef.current);
     timerRef.current = null;
     setRunning(false);
+    setControl(null);
+    setRunsVersion((v) => v + 1);
     if (socketRef.current) {
       try {
         // attempt to stop on server if possible
         const rid = runIdRef.current;
-        if (rid) { try { await api.post('/api/arena/stop', { run_id: rid }); } catch {} }
+        if (rid && !watchingRef.current) { try { await api.post('/api/arena/stop', { run_id: rid }); } catch {} }
         socketRef.current.disconnect();
       } catch {}
       socketRef.current = null;
     }
     runIdRef.current = null;
+    watchingRef.current = false;
+    setViewers(0);
+  }
+
+  // Branches the paused run with the form's algorithms and hyperparameters and follows the branch; the
+  // parent stays paused so it can be forked again, and the charts keep the history up to the branch point
+  async function fork() {
+    const parent = runIdRef.current;
+    if (!parent) return;
+    try {
+      const res = await api.post('/api/arena/fork', { run_id: parent, overrides: { algA, algB, paramsA, paramsB, feedback } });
+      socketRef.current?.disconnect();
+      watchingRef.current = false; // the branch is ours even when the parent was only watched
+      listen(res.data.run_id as string);
+    } catch {
+      // keep following the parent
+    }
   }
 
   async function reset() {
@@ -287,13 +440,15 @@ const ArenaPage: React.FC = () => {
 
   function downloadCsv() {
     if (!recsRef.current.length) return;
-    const header = ['t', 'p1_action', 'p2_action', 'reward1', 'reward2', 'p1_probs', 'p2_probs'];
+    const header = ['t', 'p1_action', 'p2_action', 'reward1', 'reward2', 'p1_probs', 'p2_probs', 'p1_avg', 'p2_avg'];
     const lines = recsRef.current.map((r) => {
-      const p1Act = game.acts1[r.a1] ?? String(r.a1);
-      const p2Act = game.acts2[r.a2] ?? String(r.a2);
+      const p1Act = game.actsA[r.a1] ?? String(r.a1);
+      const p2Act = game.actsB[r.a2] ?? String(r.a2);
       const p1Prob = r.p1.map((x) => x.toFixed(4)).join('|');
       const p2Prob = r.p2.map((x) => x.toFixed(4)).join('|');
-      return [r.t, p1Act, p2Act, r.r1, r.r2, `"${p1Prob}"`, `"${p2Prob}"`].join(',');
+      const p1Avg = r.q1.map((x) => x.toFixed(4)).join('|');
+      const p2Avg = r.q2.map((x) => x.toFixed(4)).join('|');
+      return [r.t, p1Act, p2Act, r.r1, r.r2, `"${p1Prob}"`, `"${p2Prob}"`, `"${p1Avg}"`, `"${p2Avg}"`].join(',');
     });
     const blob = new Blob([`${header.join(',')}\n${lines.join('\n')}`], { type: 'text/csv;charset=utf-8;' });
     const url = URL.createObjectURL(blob);
@@ -310,17 +465,28 @@ const ArenaPage: React.FC = () => {
   const iters = recsRef.current.map((r) => r.t);
   const rewards1 = recsRef.current.map((r) => r.r1);
   const window = 50;
-  const ma1 = useMemo(() => movingAvg(rewards1, window), [tick]);
+  const hasDiag = recsRef.current.length > 0 && !!recsRef.current[recsRef.current.length - 1].d;
+  // the server's moving average spans steps rather than ticks; local runs and old replays smooth here
+  const ma1 = useMemo(() => (hasDiag ? recsRef.current.map((r) => r.d?.maRewardA ?? null) : movingAvg(rewards1, window)), [tick]);
 
   const probSeries = useMemo(() => {
-    const n = game.acts1.length;
-    const series: number[][] = Array.from({ length: n }, () => []);
+    const n = game.actsA.length;
+    const last: number[][] = Array.from({ length: n }, () => []);
+    const avg: number[][] = Array.from({ length: n }, () => []);
     for (const r of recsRef.current) {
-      for (let i = 0; i < n; i++) series[i].push(r.p1[i]);
+      for (let i = 0; i < n; i++) {
+        last[i].push(r.p1[i]);
+        avg[i].push(r.q1[i]);
+      }
     }
-    return series;
+    return { last, avg };
   }, [tick, game.id]);
 
+  const phaseTraj = useMemo(() => ({
+    a: recsRef.current.map((r) => r.p1),
+    b: recsRef.current.map((r) => r.p2),
+  }), [tick]);
+
   const heatSeries = useMemo(() => {
     const data: [number, number, number][] = [];
     const counts = heatRef.current;
@@ -337,11 +503,11 @@ const ArenaPage: React.FC = () => {
   const p2Label = t('arena.axis.p2');
 
   const decisionData = useMemo(() => recsRef.current.flatMap((r) => ([
-    { t: r.t, player: p1Label, action: game.acts1[r.a1] ?? String(r.a1), reward: r.r1 },
-    { t: r.t, player: p2Label, action: game.acts2[r.a2] ?? String(r.a2), reward: r.r2 },
-  ])), [tick, gameId, p1Label, p2Label]);
+    { t: r.t, player: p1Label, action: game.actsA[r.a1] ?? String(r.a1), reward: r.r1 },
+    { t: r.t, player: p2Label, action: game.actsB[r.a2] ?? String(r.a2), reward: r.r2 },
+  ])), [tick, game.id, p1Label, p2Label]);
 
-  const actionCategories = useMemo(() => Array.from(new Set([...game.acts1, ...game.acts2])), [gameId]);
+  const actionCategories = useMemo(() => Array.from(new Set([...game.actsA, ...game.actsB])), [game.id]);
 
   const actionColorMap = useMemo(() => {
     const map = new Map<string, string>();
@@ -350,6 +516,23 @@ const ArenaPage: React.FC = () => {
   }, [actionCategories]);
 
   const recentSteps = useMemo(() => recsRef.current.slice(-12).reverse(), [tick]);
+  const lastRound = useMemo(() => {
+    const r = recsRef.current[recsRef.current.length - 1];
+    if (!r || !human) return null;
+    const a = game.actsA[r.a1] ?? String(r.a1);
+    const b = game.actsB[r.a2] ?? String(r.a2);
+    return human === 'A' ? { you: a, agent: b } : { you: b, agent: a };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tick, human, game]);
+
+  // Dotted vertical lines where interventions took effect
+  const eventMarks = useMemo(() => ({
+    symbol: 'none',
+    silent: true,
+    lineStyle: { type: 'dotted', color: '#f59e0b' },
+    label: { formatter: (p: any) => p.name, fontSize: 10 },
+    data: eventsRef.current.map((e) => ({ xAxis: e.index, name: describeEvent(e, t) })),
+  }), [tick, t]);
 
   // Charts options
   const rewardOption = useMemo(() => ({
@@ -358,18 +541,48 @@ const ArenaPage: React.FC = () => {
     xAxis: { type: 'category', data: iters, name: t('arena.axis.t') },
     yAxis: { type: 'value', name: t('arena.axis.reward') },
     series: [
-      { name: t('arena.avgRewardTitle'), type: 'line', data: ma1, smooth: true, showSymbol: false },
+      { name: t('arena.avgRewardTitle'), type: 'line', data: ma1, smooth: true, showSymbol: false, markLine: eventMarks },
     ],
-  }), [tick, t]);
+  }), [tick, t, eventMarks]);
+
+  // Convergence diagnostics of a backend run: regret per step should shrink for no-regret learners, and
+  // exploitability of the average strategy should approach zero in zero-sum games
+  const diagOption = useMemo(() => {
+    const line = (name: string, data: Array<number | null>, extra: Record<string, unknown> = {}) => ({ name, type: 'line', data, smooth: true, showSymbol: false, ...extra });
+    const pick = (f: (d: Diagnostics, t: number) => number) => recsRef.current.map((r) => (r.d ? f(r.d, r.t) : null));
+    const names = [t('arena.diag.regretA'), t('arena.diag.regretB'), t('arena.diag.nashConv'), t('arena.diag.avgNashConv'), t('arena.diag.entropyA'), t('arena.diag.entropyB')];
+    return {
+      grid: { top: 40, right: 10, bottom: 30, left: 50 },
+      tooltip: { trigger: 'axis' },
+      legend: { data: names },
+      xAxis: { type: 'category', data: iters, name: t('arena.axis.t') },
+      yAxis: { type: 'value' },
+      series: [
+        line(names[0], pick((d, step) => d.regretA / step), { markLine: eventMarks }),
+        line(names[1], pick((d, step) => d.regretB / step)),
+        line(names[2], pick((d) => d.nashConv)),
+        line(names[3], pick((d) => d.avgNashConv), { lineStyle: { type: 'dashed' } }),
+        line(names[4], pick((d) => d.entropyA), { lineStyle: { type: 'dotted' } }),
+        line(names[5], pick((d) => d.entropyB), { lineStyle: { type: 'dotted' } }),
+      ],
+    };
+  }, [tick, t, eventMarks]);
 
   const probsOption = useMemo(() => ({
     grid: { top: 20, right: 10, bottom: 30, left: 40 },
     tooltip: { trigger: 'axis' },
     xAxis: { type: 'category', data: iters },
     yAxis: { type: 'value', min: 0, max: 1 },
-    legend: { data: game.acts1 },
-    series: game.acts1.map((label, i) => ({ name: label, type: 'line', data: probSeries[i] || [], smooth: true, showSymbol: false })),
-  }), [tick, game.id]);
+    legend: { data: game.actsA },
+    // solid: current mix, dashed: its running time average (same colour per action)
+    series: game.actsA.flatMap((label, i) => {
+      const color = ACTION_COLORS[i % ACTION_COLORS.length];
+      return [
+        { name: label, type: 'line', data: probSeries.last[i] || [], smooth: true, showSymbol: false, itemStyle: { color }, markLine: i === 0 ? eventMarks : undefined },
+        { name: label, type: 'line', data: probSeries.avg[i] || [], smooth: true, showSymbol: false, itemStyle: { color }, lineStyle: { type: 'dashed' } },
+      ];
+    }),
+  }), [tick, game.id, eventMarks]);
 
   const heatOption = useMemo(() => ({
     grid: { top: 20, right: 10, bottom: 30, left: 60 },
@@ -378,11 +591,11 @@ const ArenaPage: React.FC = () => {
         const i = p.value[1];
         const j = p.value[0];
         const freq = p.value[2];
-        return t('arena.tooltip.freq', { p1: game.acts1[i], p2: game.acts2[j], freq: (freq * 100).toFixed(1) });
+        return t('arena.tooltip.freq', { p1: game.actsA[i], p2: game.actsB[j], freq: (freq * 100).toFixed(1) });
       }
     },
-    xAxis: { type: 'category', data: game.acts2, name: t('arena.axis.p2') },
-    yAxis: { type: 'category', data: game.acts1, name: t('arena.axis.p1') },
+    xAxis: { type: 'category', data: game.actsB, name: t('arena.axis.p2') },
+    yAxis: { type: 'category', data: game.actsA, name: t('arena.axis.p1') },
     visualMap: { min: 0, max: 1, orient: 'horizontal', left: 'center', bottom: 0 },
     series: [{ type: 'heatmap', data: heatSeries }],
   }), [tick, game.id, t]);
@@ -451,17 +664,48 @@ const ArenaPage: React.FC = () => {
           </div>
         </div>
         <Controls
-          gameId={gameId}
-          setGameId={(id) => { setGameId(id); }}
+          games={games}
+          gameId={game.id}
+          setGameId={(id) => { setGameId(id); setGameParams({}); }}
+          gameParams={gameParams}
+          setGameParams={setGameParams}
           steps={steps}
           setSteps={(n) => setSteps(n)}
           seed={seed}
           setSeed={(s) => setSeed(s)}
           lr={lr}
           setLr={(x) => setLr(x)}
+          algorithms={algorithms}
+          algA={algA}
+          setAlgA={setAlgA}
+          algB={algB}
+          setAlgB={setAlgB}
+          paramsA={paramsA}
+          setParamsA={setParamsA}
+          paramsB={paramsB}
+          setParamsB={setParamsB}
+          feedback={feedback}
+          setFeedback={setFeedback}
           running={running}
           backendMode={backendMode}
           setBackendMode={setBackendMode}
+          control={control}
+          record={record}
+          setRecord={setRecord}
+          human={human}
+          setHuman={(h) => { setHuman(h); setPolicy(null); if (h) setBackendMode(true); }}
+          policyName={policy?.name ?? null}
+          onPolicyFile={(f) => { if (human) loadPolicyFile(f, human === 'A' ? 'B' : 'A'); }}
+          ticksPerSecond={ticksPerSecond}
+          stepsPerTick={stepsPerTick}
+          onSpeed={changeSpeed}
+          onPause={() => command('pause')}
+          onResume={() => command('resume')}
+          onStep={(n) => command('step', { n })}
+          onFork={fork}
+          canFork={!replaying}
+          viewers={viewers}
+          startError={startError}
           onStart={() => { initState(seed); start(); }}
           onStop={() => stop()}
           onReset={() => reset()}
@@ -470,6 +714,66 @@ const ArenaPage: React.FC = () => {
       </div>
 
       <div className="col" style={{ gap: 16 }}>
+        {human && (
+          <div className="card">
+            <div className="section-header">
+              <div>
+                <h3 className="page-title" style={{ fontSize: '1.05rem' }}>{t('arena.human.title')}</h3>
+                <p className="page-subtitle">{t('arena.human.subtitle')}</p>
+              </div>
+            </div>
+            <HumanPlayPanel
+              moves={human === 'A' ? game.actsA : game.actsB}
+              agentActs={human === 'A' ? game.actsB : game.actsA}
+              agentStrategy={human === 'A' ? p2Ref.current : p1Ref.current}
+              score={score}
+              lastRound={lastRound}
+              disabled={!running || !control || control.status === 'done'}
+              onMove={(action) => command('move', { action })}
+            />
+          </div>
+        )}
+        {backendMode && (
+          <div className="card">
+            <div className="section-header">
+              <div>
+                <h3 className="page-title" style={{ fontSize: '1.05rem' }}>{t('arena.intervene.title')}</h3>
+                <p className="page-subtitle">{t('arena.intervene.subtitle')}</p>
+              </div>
+            </div>
+            <InterventionPanel
+              algorithms={algorithms}
+              events={eventsRef.current}
+              disabled={!running || !control || control.status === 'done'}
+              onApply={(body, onError) => command('intervene', body, onError)}
+            />
+          </div>
+        )}
+        <div className="card">
+          <div className="section-header">
+            <div>
+              <h3 className="page-title" style={{ fontSize: '1.05rem' }}>{t('arena.live.title')}</h3>
+              <p className="page-subtitle">{t('arena.live.subtitle')}</p>
+            </div>
+          </div>
+          <LiveRunsPanel refreshKey={runsVersion} disabled={running} onWatch={watch} />
+        </div>
+        <div className="card">
+          <div className="section-header">
+            <div>
+              <h3 className="page-title" style={{ fontSize: '1.05rem' }}>{t('arena.runs.title')}</h3>
+              <p className="page-subtitle">{t('arena.runs.subtitle')}</p>
+            </div>
+          </div>
+          <ArenaRunsPanel
+            refreshKey={runsVersion}
+            disabled={running}
+            canReplay={(run) => run.game === game.id && JSON.stringify(run.gameParams ?? null) === JSON.stringify(game.params ?? null)}
+            onLoad={loadRun}
+            onReplay={replay}
+          />
+        </div>
+
         <div className="card">
           <div className="section-header">
             <div>
@@ -491,8 +795,8 @@ const ArenaPage: React.FC = () => {
               <div style={{ border: '1px solid rgba(148, 163, 184, 0.35)', borderRadius: 12, padding: '0.6rem', background: 'rgba(15, 23, 42, 0.6)', maxHeight: 300, overflowY: 'auto' }}>
                 {recentSteps.length === 0 && <div className="muted">{t('arena.noSteps')}</div>}
                 {recentSteps.map((r) => {
-                  const p1Act = game.acts1[r.a1] ?? String(r.a1);
-                  const p2Act = game.acts2[r.a2] ?? String(r.a2);
+                  const p1Act = game.actsA[r.a1] ?? String(r.a1);
+                  const p2Act = game.actsB[r.a2] ?? String(r.a2);
                   return (
                     <div key={r.t} className="row" style={{ justifyContent: 'space-between', alignItems: 'center', marginBottom: 6, gap: 8 }}>
                       <div className="muted" style={{ minWidth: 52 }}>{t('arena.control.time', { t: r.t })}</div>
@@ -521,6 +825,19 @@ const ArenaPage: React.FC = () => {
             <ReactECharts echarts={echarts} option={rewardOption} style={{ height: 260 }} />
           </ChartBoundary>
         </div>
+        {hasDiag && (
+          <div className="card">
+            <div className="section-header">
+              <div>
+                <h3 className="page-title" style={{ fontSize: '1.05rem' }}>{t('arena.diag.title')}</h3>
+                <p className="page-subtitle">{t('arena.diag.subtitle')}</p>
+              </div>
+            </div>
+            <ChartBoundary errorText={t('common.chartError')}>
+              <ReactECharts echarts={echarts} option={diagOption} style={{ height: 300 }} />
+            </ChartBoundary>
+          </div>
+        )}
         <div className="card">
           <div className="section-header">
             <div>
@@ -532,6 +849,17 @@ const ArenaPage: React.FC = () => {
             <ReactECharts echarts={echarts} option={probsOption} style={{ height: 300 }} />
           </ChartBoundary>
         </div>
+        <div className="card">
+          <div className="section-header">
+            <div>
+              <h3 className="page-title" style={{ fontSize: '1.05rem' }}>{t('phase.title')}</h3>
+              <p className="page-subtitle">{t('phase.subtitle')}</p>
+            </div>
+          </div>
+          <ChartBoundary errorText={t('common.chartError')}>
+            <PhasePlot gameId={game.id} gameParams={gameParams} actsA={game.actsA} actsB={game.actsB} trajA={phaseTraj.a} trajB={phaseTraj.b} />
+          </ChartBoundary>
+        </div>
         <div className="card">
           <div className="section-header">
             <div>
@@ -543,6 +871,18 @@ const ArenaPage: React.FC = () => {
             <ReactECharts echarts={echarts} option={heatOption} style={{ height: 320 }} />
           </ChartBoundary>
         </div>
+        <div className="card">
+          <div className="section-header">
+            <div>
+              <h3 className="page-title" style={{ fontSize: '1.05rem' }}>{t('corr.title')}</h3>
+              <p className="page-subtitle">{t('corr.arenaSubtitle')}</p>
+            </div>
+          </div>
+          <CorrelatedPanel
+            body={recsRef.current.length ? { game: game.id, gameParams, joint: heatRef.current } : null}
+            disabled={running}
+          />
+        </div>
       </div>
     </div>
   );
@@ -560,59 +900,160 @@ function movingAvg(xs: number[], w: number): number[] {
 }
 
 const Controls: React.FC<{
-  gameId: GameId;
-  setGameId: (g: GameId) => void;
+  games: GameSpec[];
+  gameId: string;
+  setGameId: (g: string) => void;
+  gameParams: Record<string, number>; setGameParams: (p: Record<string, number>) => void;
   steps: number; setSteps: (n: number) => void;
   seed: string; setSeed: (s: string) => void;
   lr: number; setLr: (x: number) => void;
+  algorithms: AlgorithmInfo[];
+  algA: AlgId; setAlgA: (a: AlgId) => void;
+  algB: AlgId; setAlgB: (a: AlgId) => void;
+  paramsA: AlgParams; setParamsA: (p: AlgParams) => void;
+  paramsB: AlgParams; setParamsB: (p: AlgParams) => void;
+  feedback: FeedbackMode; setFeedback: (f: FeedbackMode) => void;
   running: boolean;
   backendMode: boolean; setBackendMode: (b: boolean) => void;
+  control: RunControl | null; // playback state while a backend run is active
+  record: 'full' | 'downsampled'; setRecord: (r: 'full' | 'downsampled') => void;
+  human: '' | 'A' | 'B'; setHuman: (h: '' | 'A' | 'B') => void;
+  policyName: string | null; // loaded RL policy playing the agent side
+  onPolicyFile: (f: File | null) => void;
+  ticksPerSecond: number;
+  stepsPerTick: number;
+  onSpeed: (speed: { ticksPerSecond?: number; stepsPerTick?: number }) => void;
+  onPause: () => void;
+  onResume: () => void;
+  onStep: (n: number) => void;
+  onFork: () => void;
+  canFork: boolean;
+  viewers: number;
+  startError: string | null;
   onStart: () => void;
   onStop: () => void;
   onReset: () => void;
   currentT: number;
-}> = ({ gameId, setGameId, steps, setSteps, seed, setSeed, lr, setLr, running, backendMode, setBackendMode, onStart, onStop, onReset, currentT }) => {
+}> = ({ games, gameId, setGameId, gameParams, setGameParams, steps, setSteps, seed, setSeed, lr, setLr, algorithms, algA, setAlgA, algB, setAlgB, paramsA, setParamsA, paramsB, setParamsB, feedback, setFeedback, running, backendMode, setBackendMode, control, record, setRecord, human, setHuman, policyName, onPolicyFile, ticksPerSecond, stepsPerTick, onSpeed, onPause, onResume, onStep, onFork, canFork, viewers, startError, onStart, onStop, onReset, currentT }) => {
   const { t } = useI18n();
+  const [stepN, setStepN] = useState<number>(1);
+  // while a live run is paused, the algorithm, feedback and hyperparameter fields configure the next fork
+  const forkable = canFork && control?.status === 'paused';
   return (
-    <div className="row" style={{ flexWrap: 'wrap', gap: 12 }}>
-      <div className="col" style={{ minWidth: 180 }}>
-        <div className="muted">{t('arena.control.game')}</div>
-        <select value={gameId} onChange={(e) => setGameId(e.target.value as GameId)}>
-          <option value="rps">{t('arena.control.rps')}</option>
-          <option value="mp">{t('arena.control.mp')}</option>
-          <option value="pd">{t('arena.control.pd')}</option>
-        </select>
-      </div>
-      
-      <div className="col" style={{ minWidth: 140 }}>
-        <div className="muted">{t('arena.control.steps')}</div>
-        <input type="number" min={1} max={20000} value={steps} onChange={(e) => setSteps(parseInt(e.target.value || '1', 10))} />
-      </div>
-      <div className="col" style={{ minWidth: 160 }}>
-        <div className="muted">{t('arena.control.seed')}</div>
-        <input value={seed} onChange={(e) => setSeed(e.target.value)} />
-      </div>
-      <div className="col" style={{ minWidth: 180 }}>
-        <div className="muted">{t('arena.control.lr')}</div>
-        <input type="number" step={0.05} min={0.05} max={5} value={lr} onChange={(e) => setLr(parseFloat(e.target.value || '0.5'))} />
-      </div>
-      <div className="col" style={{ minWidth: 180 }}>
-        <div className="muted">{t('arena.control.backend')}</div>
-        <label className="row" style={{ gap: 8, alignItems: 'center' }}>
-          <input type="checkbox" checked={backendMode} onChange={(e) => setBackendMode(e.target.checked)} />
-          <span className="muted">{t('arena.control.backendLabel')}</span>
-        </label>
-      </div>
-      <div className="row" style={{ gap: 8, marginLeft: 'auto' }}>
-        {!running ? (
-          <button className="primary" onClick={onStart}>{t('arena.control.start')}</button>
+    <>
+      <div className="row" style={{ flexWrap: 'wrap', gap: 12 }}>
+        <div className="col" style={{ minWidth: 180 }}>
+          <div className="muted">{t('arena.control.game')}</div>
+          <select value={gameId} onChange={(e) => setGameId(e.target.value)}>
+            {games.map((g) => <option key={g.id} value={g.id}>{gameLabel(g, t)}</option>)}
+          </select>
+        </div>
+        <GameParamsFields defs={games.find((g) => g.id === gameId)?.paramDefs} values={gameParams} onChange={setGameParams} disabled={running} />
+
+        <div className="col" style={{ minWidth: 140 }}>
+          <div className="muted">{t('arena.control.steps')}</div>
+          <input type="number" min={1} max={20000} value={steps} onChange={(e) => setSteps(parseInt(e.target.value || '1', 10))} />
+        </div>
+        <div className="col" style={{ minWidth: 160 }}>
+          <div className="muted">{t('arena.control.seed')}</div>
+          <input value={seed} onChange={(e) => setSeed(e.target.value)} />
+        </div>
+        <div className="col" style={{ minWidth: 160 }}>
+          <div className="muted">{t('arena.human.players')}</div>
+          <select value={human} onChange={(e) => setHuman(e.target.value as '' | 'A' | 'B')} disabled={running}>
+            <option value="">{t('arena.human.agents')}</option>
+            <option value="A">{t('arena.human.playA')}</option>
+            <option value="B">{t('arena.human.playB')}</option>
+          </select>
+        </div>
+        {([['A', algA, setAlgA], ['B', algB, setAlgB]] as const).filter(([side]) => side !== human).map(([side, alg, setAlg]) => (
+          <div key={side} className="col" style={{ minWidth: 180 }}>
+            <div className="muted">{t(side === 'A' ? 'arena.control.algA' : 'arena.control.algB')}</div>
+            <select value={backendMode ? alg : 'hedge'} onChange={(e) => setAlg(e.target.value as AlgId)} disabled={(running && !forkable) || !backendMode || !!policyName}>
+              {algorithms.map((a) => <option key={a.id} value={a.id} title={a.description}>{algLabel(a, t)}</option>)}
+            </select>
+          </div>
+        ))}
+        {human && (
+          <div className="col" style={{ minWidth: 200 }}>
+            <div className="muted">{t('arena.human.policy')}</div>
+            <input type="file" accept="application/json,.json" onChange={(e) => onPolicyFile(e.target.files?.[0] ?? null)} disabled={running} />
+            <span className="muted" style={{ fontSize: 12 }}>{policyName ?? t('arena.human.noPolicy')}</span>
+          </div>
+        )}
+        {backendMode ? (
+          <div className="col" style={{ minWidth: 160 }}>
+            <div className="muted">{t('feedback.label')}</div>
+            <select value={feedback} onChange={(e) => setFeedback(e.target.value as FeedbackMode)} disabled={running && !forkable} title={t(`feedback.${feedback}.hint`)}>
+              {FEEDBACK_MODES.map((f) => <option key={f} value={f}>{t(`feedback.${f}`)}</option>)}
+            </select>
+          </div>
         ) : (
-          <button onClick={onStop}>{t('arena.control.stop')}</button>
+          <div className="col" style={{ minWidth: 180 }}>
+            <div className="muted">{t('arena.control.lr')}</div>
+            <input type="number" step={0.05} min={0.05} max={5} value={lr} onChange={(e) => setLr(parseFloat(e.target.value || '0.5'))} />
+          </div>
         )}
-        <button onClick={onReset}>{t('arena.control.reset')}</button>
+        <div className="col" style={{ minWidth: 180 }}>
+          <div className="muted">{t('arena.control.backend')}</div>
+          <label className="row" style={{ gap: 8, alignItems: 'center' }}>
+            <input type="checkbox" checked={backendMode} onChange={(e) => setBackendMode(e.target.checked)} disabled={!!human} />
+            <span className="muted">{t('arena.control.backendLabel')}</span>
+          </label>
+        </div>
+        <div className="row" style={{ gap: 8, marginLeft: 'auto' }}>
+          {!running ? (
+            <button className="primary" onClick={onStart}>{t('arena.control.start')}</button>
+          ) : (
+            <button onClick={onStop}>{t('arena.control.stop')}</button>
+          )}
+          <button onClick={onReset}>{t('arena.control.reset')}</button>
+        </div>
+        <div className="muted" style={{ marginLeft: 'auto' }}>{t('arena.control.time', { t: currentT })}</div>
       </div>
-      <div className="muted" style={{ marginLeft: 'auto' }}>{t('arena.control.time', { t: currentT })}</div>
-    </div>
+      {backendMode && (
+        <div className="row" style={{ gap: 12, flexWrap: 'wrap', marginTop: 12, alignItems: 'flex-end' }}>
+          <div className="col" style={{ minWidth: 140 }}>
+            <div className="muted">{t('arena.control.ticksPerSecond')}</div>
+            <input type="number" min={1} max={60} value={ticksPerSecond} onChange={(e) => onSpeed({ ticksPerSecond: parseInt(e.target.value || '1', 10) })} />
+          </div>
+          <div className="col" style={{ minWidth: 140 }}>
+            <div className="muted">{t('arena.control.stepsPerTick')}</div>
+            <input type="number" min={1} max={1000} value={stepsPerTick} onChange={(e) => onSpeed({ stepsPerTick: parseInt(e.target.value || '1', 10) })} />
+          </div>
+          <div className="col" style={{ minWidth: 140 }}>
+            <div className="muted">{t('arena.record.label')}</div>
+            <select value={record} onChange={(e) => setRecord(e.target.value as 'full' | 'downsampled')} disabled={running}>
+              <option value="full">{t('arena.record.full')}</option>
+              <option value="downsampled">{t('arena.record.downsampled')}</option>
+            </select>
+          </div>
+          {control?.status === 'running' && <button onClick={onPause}>{t('arena.control.pause')}</button>}
+          {control?.status === 'paused' && (
+            <>
+              <button className="primary" onClick={onResume}>{t('arena.control.resume')}</button>
+              <input type="number" min={1} max={1000} value={stepN} onChange={(e) => setStepN(parseInt(e.target.value || '1', 10))} style={{ width: 90 }} />
+              <button onClick={() => onStep(stepN)}>{t('arena.control.step')}</button>
+              {canFork && <button onClick={onFork} title={t('arena.control.forkHint')}>{t('arena.control.fork')}</button>}
+            </>
+          )}
+          {control && <div className="muted">{t(`arena.control.status.${control.status}`)}</div>}
+          {control && viewers > 1 && <div className="muted">{t('arena.control.viewers', { n: viewers })}</div>}
+          {startError && <div className="muted">{t('arena.control.startError', { error: startError })}</div>}
+        </div>
+      )}
+      {backendMode && ([['A', algA, paramsA, setParamsA], ['B', algB, paramsB, setParamsB]] as const).filter(([side]) => side !== human && !policyName).map(([side, alg, values, setValues]) => {
+        const defs = algorithms.find((a) => a.id === alg)?.params;
+        return (
+          <div key={side} className="row" style={{ gap: 12, flexWrap: 'wrap', marginTop: 12, alignItems: 'flex-end' }}>
+            <div className="muted" style={{ minWidth: 170 }}>{t(side === 'A' ? 'arena.control.paramsA' : 'arena.control.paramsB')}</div>
+            {defs?.length
+              ? <HyperparamFields defs={defs} values={values} onChange={setValues} disabled={running && !forkable} />
+              : <div className="muted">{t('arena.control.noParams')}</div>}
+          </div>
+        );
+      })}
+    </>
   );
 };
 
@@ -1,11 +1,16 @@
-import React, { useEffect, useMemo, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import ReactECharts from 'echarts-for-react';
 import * as echarts from 'echarts';
+import { io, Socket } from 'socket.io-client';
+import { AlgId, algLabel, AlgParams, FEEDBACK_MODES, FeedbackMode, useAlgorithms } from '../algos';
 import api from '../api';
+import CorrelatedPanel from '../components/CorrelatedPanel';
+import GameParamsFields from '../components/GameParamsFields';
+import HyperparamFields from '../components/HyperparamFields';
+import PhasePlot from '../components/PhasePlot';
+import { gameLabel, useGames } from '../games';
 import { useI18n } from '../i18n';
 
-type GameId = 'rps' | 'mp' | 'pd';
-type AlgId = 'hedge' | 'regret' | 'fp';
 
 type Metric = {
   seed: number;
@@ -14,6 +19,12 @@ type Metric = {
   avgRewardA: number;
   coopRate: number | null;
   l2Dist: number | null;
+  nashConv: number | null;
+  avgNashConv: number | null;
+  pA: number[] | null; // final and episode-average strategies (null for older runs)
+  pB: number[] | null;
+  avgPA: number[] | null;
+  avgPB: number[] | null;
 };
 
 const defaultSeeds = '1,2,3';
@@ -29,6 +40,8 @@ type TraceStep = {
   rewardB: number;
   pA: number[];
   pB: number[];
+  avgA: number[]; // running time average within the episode
+  avgB: number[];
 };
 
 type TracePayload = {
@@ -37,59 +50,144 @@ type TracePayload = {
   steps: TraceStep[];
 };
 
+type EvalStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+// A background eval job as reported by the /eval socket and GET /api/eval/status; done/total count steps
+type EvalProgress = {
+  run_id: number;
+  status: EvalStatus;
+  done: number;
+  total: number;
+  error: string | null;
+};
+
+const FINISHED: EvalStatus[] = ['done', 'failed', 'cancelled'];
+const POLL_MS = 1000;
+
 const EvalPage: React.FC = () => {
-  const [game, setGame] = useState<GameId>('rps');
+  const { games } = useGames();
+  const algorithms = useAlgorithms();
+  const [gameParams, setGameParams] = useState<Record<string, number>>({});
+  const [game, setGame] = useState<string>('rps');
   const [algA, setAlgA] = useState<AlgId>('hedge');
   const [algB, setAlgB] = useState<AlgId>('regret');
   const [seedsText, setSeedsText] = useState<string>(defaultSeeds);
   const [episodes, setEpisodes] = useState<number>(5);
   const [stepsPerEp, setStepsPerEp] = useState<number>(500);
-  const [lr, setLr] = useState<number>(0.5);
+  const [paramsA, setParamsA] = useState<AlgParams>({});
+  const [paramsB, setParamsB] = useState<AlgParams>({});
+  const [feedback, setFeedback] = useState<FeedbackMode>('expected');
   const [running, setRunning] = useState(false);
   const [runId, setRunId] = useState<number | null>(null);
   const [summary, setSummary] = useState<any | null>(null);
   const [metrics, setMetrics] = useState<Metric[]>([]);
   const [trace, setTrace] = useState<TracePayload | null>(null);
   const [traceLoading, setTraceLoading] = useState(false);
+  const [traceError, setTraceError] = useState<string | null>(null);
   const [traceSeed, setTraceSeed] = useState<number | null>(null);
   const [traceEp, setTraceEp] = useState<number | null>(null);
+  const [progress, setProgress] = useState<EvalProgress | null>(null);
+  const [startError, setStartError] = useState<string | null>(null);
+  const [resultsError, setResultsError] = useState<string | null>(null);
+  const socketRef = useRef<Socket | null>(null);
+  const pollRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const { t } = useI18n();
 
+  useEffect(() => () => unfollow(), []);
+  const zeroSum = useMemo(() => games.find((g) => g.id === game)?.zeroSum ?? true, [games, game]);
+
+  // The server queues the run and answers at once; results are loaded when the job reports it has finished
   async function runEval() {
+    setRunning(true);
+    setSummary(null);
+    setMetrics([]);
+    setTrace(null);
+    setTraceError(null);
+    setTraceSeed(null);
+    setTraceEp(null);
+    setProgress(null);
+    setStartError(null);
+    setResultsError(null);
     try {
-      setRunning(true);
-      setSummary(null);
-      setMetrics([]);
-      setTrace(null);
-      setTraceSeed(null);
-      setTraceEp(null);
       const seeds = seedsText.split(',').map((s) => parseInt(s.trim(), 10)).filter((x) => !isNaN(x));
-      const res = await api.post('/api/eval/start', { game, algA, algB, seeds, episodes, stepsPerEp, lr });
-      const id = res.data?.run_id as number;
-      setRunId(id);
-      // poll summary (though server returns after done, keep for robustness)
-      for (let i = 0; i < 20; i++) {
-        const sres = await api.get(`/api/eval/summary/${id}`);
-        if (sres.status === 204) { await new Promise(r => setTimeout(r, 500)); continue; }
-        setSummary(sres.data);
-        break;
+      const res = await api.post('/api/eval/start', { game, gameParams, algA, algB, seeds, episodes, stepsPerEp, paramsA, paramsB, feedback });
+      const p: EvalProgress = res.data;
+      setRunId(p.run_id);
+      setProgress(p);
+      follow(p.run_id);
+    } catch (err: any) {
+      setStartError(err?.response?.data?.error ?? 'internal_error');
+      setRunning(false);
+    }
+  }
+
+  // Subscribes to the job on the /eval socket, or polls its status when the socket is refused
+  function follow(id: number) {
+    unfollow();
+    const s = io('http://localhost:4000/eval', { withCredentials: true, query: { run_id: id } });
+    socketRef.current = s;
+    s.on('progress', (p: EvalProgress) => { void onJobProgress(p); });
+    s.on('connect_error', () => {
+      s.disconnect();
+      socketRef.current = null;
+      if (pollRef.current) return;
+      pollRef.current = setInterval(async () => {
+        try {
+          const res = await api.get(`/api/eval/status/${id}`);
+          void onJobProgress(res.data);
+        } catch {}
+      }, POLL_MS);
+    });
+  }
+
+  function unfollow() {
+    socketRef.current?.disconnect();
+    socketRef.current = null;
+    if (pollRef.current) clearInterval(pollRef.current);
+    pollRef.current = null;
+  }
+
+  async function onJobProgress(p: EvalProgress) {
+    setProgress(p);
+    if (!FINISHED.includes(p.status)) return;
+    unfollow();
+    setRunning(false);
+    if (p.status === 'failed') return;
+    // a cancelled run keeps the episodes it finished, without a summary or trace; the trace of a finished
+    // run is replayed by the server on request, so it is only loaded from its button
+    const complete = p.status === 'done';
+    try {
+      if (complete) {
+        const sres = await api.get(`/api/eval/summary/${p.run_id}`);
+        if (sres.status !== 204) setSummary(sres.data);
       }
-      const mres = await api.get(`/api/eval/metrics/${id}`);
+      const mres = await api.get(`/api/eval/metrics/${p.run_id}`);
       setMetrics(mres.data);
-      await loadTrace(id);
-    } finally {
-      setRunning(false);
+    } catch (err: any) {
+      setResultsError(err?.response?.data?.error ?? 'internal_error');
+    }
+  }
+
+  async function cancelEval() {
+    if (runId == null) return;
+    try {
+      await api.post('/api/eval/cancel', { run_id: runId });
+    } catch {
+      // already finished; its last progress event is on the way
     }
   }
 
   async function loadTrace(id: number) {
     try {
       setTraceLoading(true);
+      setTraceError(null);
       const tres = await api.get(`/api/eval/trace/${id}`);
       const payload: TracePayload = tres.data;
       setTrace(payload);
       const seeds = Array.from(new Set(payload.steps.map((s) => s.seed))).sort((a, b) => a - b);
       setTraceSeed((prev) => prev ?? (seeds[0] ?? null));
+    } catch (err: any) {
+      setTraceError(err?.response?.data?.error ?? 'internal_error');
     } finally {
       setTraceLoading(false);
     }
@@ -116,9 +214,22 @@ const EvalPage: React.FC = () => {
     const l2 = eps.map((ep) => {
       const list = map.get(ep)!.filter(x => x.l2Dist != null);
       const mean = list.length ? list.reduce((a, b) => a + (b.l2Dist as number), 0) / list.length : null;
-      return { ep, mean };
+      // same distance for the episode-average strategy of A
+      const avgs = map.get(ep)!.map((m) => m.avgPA).filter((p): p is number[] => p != null);
+      const avg = avgs.length
+        ? avgs.reduce((acc, p) => acc + Math.sqrt(p.reduce((d, x) => d + (x - 1 / p.length) ** 2, 0)), 0) / avgs.length
+        : null;
+      return { ep, mean, avg };
+    });
+    const nashConv = eps.map((ep) => {
+      const list = map.get(ep)!;
+      const mean = (key: 'nashConv' | 'avgNashConv') => {
+        const xs = list.map((m) => m[key]).filter((x): x is number => x != null);
+        return xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : null;
+      };
+      return { ep, last: mean('nashConv'), avg: mean('avgNashConv') };
     });
-    return { eps, avgReward, coop, l2 };
+    return { eps, avgReward, coop, l2, nashConv };
   }, [metrics]);
 
   // Histogram for winA
@@ -145,12 +256,14 @@ const EvalPage: React.FC = () => {
         <div className="row" style={{ flexWrap: 'wrap', gap: 16 }}>
           <div>{t('eval.summary.winA')}: {fmt(s.winA_mean)} ± {fmt(s.winA_std)}</div>
           <div>{t('eval.summary.avgRewardA')}: {fmt(s.avgRewardA_mean)} ± {fmt(s.avgRewardA_std)}</div>
-          {game === 'pd' && <div>{t('eval.summary.coopRate')}: {fmt(s.coopRate_mean)} ± {fmt(s.coopRate_std)}</div>}
-          {game !== 'pd' && <div>{t('eval.summary.l2Dist')}: {fmt(s.l2Dist_mean)} ± {fmt(s.l2Dist_std)}</div>}
+          {!zeroSum && <div>{t('eval.summary.coopRate')}: {fmt(s.coopRate_mean)} ± {fmt(s.coopRate_std)}</div>}
+          {zeroSum && <div>{t('eval.summary.l2Dist')}: {fmt(s.l2Dist_mean)} ± {fmt(s.l2Dist_std)}</div>}
+          <div>{t('eval.summary.nashConv')}: {fmt(s.nashConv_mean)} ± {fmt(s.nashConv_std)}</div>
+          <div>{t('eval.summary.avgNashConv')}: {fmt(s.avgNashConv_mean)} ± {fmt(s.avgNashConv_std)}</div>
         </div>
       </div>
     );
-  }, [summary, game, t]);
+  }, [summary, zeroSum, t]);
 
   const rewardOption = useMemo(() => ({
     grid: { top: 20, right: 10, bottom: 30, left: 40 },
@@ -173,7 +286,23 @@ const EvalPage: React.FC = () => {
     tooltip: { trigger: 'axis' },
     xAxis: { type: 'category', data: byEp.eps, name: t('eval.control.episodes') },
     yAxis: { type: 'value', name: t('eval.axis.l2Dist') },
-    series: [{ type: 'line', data: byEp.l2.map((d) => d.mean ?? null), smooth: true }],
+    legend: { data: [t('eval.series.lastIterate'), t('eval.series.timeAvg')] },
+    series: [
+      { name: t('eval.series.lastIterate'), type: 'line', data: byEp.l2.map((d) => d.mean ?? null), smooth: true },
+      { name: t('eval.series.timeAvg'), type: 'line', data: byEp.l2.map((d) => d.avg ?? null), smooth: true },
+    ],
+  }), [byEp, t]);
+
+  const nashConvOption = useMemo(() => ({
+    grid: { top: 30, right: 10, bottom: 30, left: 40 },
+    tooltip: { trigger: 'axis' },
+    legend: { data: [t('eval.series.lastIterate'), t('eval.series.timeAvg')] },
+    xAxis: { type: 'category', data: byEp.eps, name: t('eval.control.episodes') },
+    yAxis: { type: 'value', name: t('eval.axis.nashConv'), min: 0 },
+    series: [
+      { name: t('eval.series.lastIterate'), type: 'line', data: byEp.nashConv.map((d) => d.last), smooth: true },
+      { name: t('eval.series.timeAvg'), type: 'line', data: byEp.nashConv.map((d) => d.avg), smooth: true },
+    ],
   }), [byEp, t]);
 
   const winHistOption = useMemo(() => ({
@@ -258,17 +387,40 @@ const EvalPage: React.FC = () => {
     }],
   }), [decisionData, actionCategories, t]);
 
+  // Last iterate (solid) against the running time average (dashed) of one player's strategy
+  const strategyOption = useCallback((side: 'A' | 'B') => {
+    const acts = trace ? (side === 'A' ? trace.actsA : trace.actsB) : [];
+    return {
+      grid: { top: 30, right: 10, bottom: 30, left: 40 },
+      tooltip: { trigger: 'axis' },
+      legend: { data: acts },
+      xAxis: { type: 'category', data: filteredSteps.map((s) => s.t), name: t('eval.axis.t') },
+      yAxis: { type: 'value', min: 0, max: 1 },
+      series: acts.flatMap((label, i) => {
+        const color = ACTION_COLORS[i % ACTION_COLORS.length];
+        const last = filteredSteps.map((s) => (side === 'A' ? s.pA : s.pB)[i]);
+        const avg = filteredSteps.map((s) => (side === 'A' ? s.avgA : s.avgB)?.[i] ?? null);
+        return [
+          { name: label, type: 'line', data: last, showSymbol: false, itemStyle: { color } },
+          { name: label, type: 'line', data: avg, showSymbol: false, itemStyle: { color }, lineStyle: { type: 'dashed' } },
+        ];
+      }),
+    };
+  }, [trace, filteredSteps, t]);
+
   const recentSteps = useMemo(() => filteredSteps.slice(-12).reverse(), [filteredSteps]);
 
   function downloadTraceCsv() {
     if (!trace || !trace.steps.length) return;
-    const header = ['seed', 'ep', 't', 'actionA', 'actionB', 'rewardA', 'rewardB', 'pA', 'pB'];
+    const header = ['seed', 'ep', 't', 'actionA', 'actionB', 'rewardA', 'rewardB', 'pA', 'pB', 'avgA', 'avgB'];
     const lines = trace.steps.map((s) => {
       const aAct = trace.actsA[s.actionA] ?? String(s.actionA);
       const bAct = trace.actsB[s.actionB] ?? String(s.actionB);
       const pA = s.pA.map((x) => x.toFixed(4)).join('|');
       const pB = s.pB.map((x) => x.toFixed(4)).join('|');
-      return [s.seed, s.ep, s.t, aAct, bAct, s.rewardA, s.rewardB, `"${pA}"`, `"${pB}"`].join(',');
+      const avgA = (s.avgA ?? []).map((x) => x.toFixed(4)).join('|');
+      const avgB = (s.avgB ?? []).map((x) => x.toFixed(4)).join('|');
+      return [s.seed, s.ep, s.t, aAct, bAct, s.rewardA, s.rewardB, `"${pA}"`, `"${pB}"`, `"${avgA}"`, `"${avgB}"`].join(',');
     });
     const blob = new Blob([`${header.join(',')}\n${lines.join('\n')}`], { type: 'text/csv;charset=utf-8;' });
     const url = URL.createObjectURL(blob);
@@ -303,26 +455,21 @@ const EvalPage: React.FC = () => {
         <div className="row" style={{ gap: 12, flexWrap: 'wrap' }}>
           <div className="col">
             <div className="muted">{t('eval.control.game')}</div>
-            <select value={game} onChange={(e) => setGame(e.target.value as GameId)}>
-              <option value="rps">{t('arena.control.rps')}</option>
-              <option value="mp">{t('arena.control.mp')}</option>
-              <option value="pd">{t('arena.control.pd')}</option>
+            <select value={game} onChange={(e) => { setGame(e.target.value); setGameParams({}); }}>
+              {games.map((g) => <option key={g.id} value={g.id}>{gameLabel(g, t)}</option>)}
             </select>
           </div>
+          <GameParamsFields defs={games.find((g) => g.id === game)?.paramDefs} values={gameParams} onChange={setGameParams} disabled={running} />
           <div className="col">
             <div className="muted">{t('eval.control.algA')}</div>
             <select value={algA} onChange={(e) => setAlgA(e.target.value as AlgId)}>
-              <option value="hedge">{t('eval.alg.hedge')}</option>
-              <option value="regret">{t('eval.alg.regret')}</option>
-              <option value="fp">{t('eval.alg.fp')}</option>
+              {algorithms.map((a) => <option key={a.id} value={a.id} title={a.description}>{algLabel(a, t)}</option>)}
             </select>
           </div>
           <div className="col">
             <div className="muted">{t('eval.control.algB')}</div>
             <select value={algB} onChange={(e) => setAlgB(e.target.value as AlgId)}>
-              <option value="hedge">{t('eval.alg.hedge')}</option>
-              <option value="regret">{t('eval.alg.regret')}</option>
-              <option value="fp">{t('eval.alg.fp')}</option>
+              {algorithms.map((a) => <option key={a.id} value={a.id} title={a.description}>{algLabel(a, t)}</option>)}
             </select>
           </div>
           <div className="col" style={{ minWidth: 200 }}>
@@ -338,13 +485,40 @@ const EvalPage: React.FC = () => {
             <input type="number" min={10} max={20000} value={stepsPerEp} onChange={(e) => setStepsPerEp(parseInt(e.target.value || '10', 10))} />
           </div>
           <div className="col">
-            <div className="muted">{t('eval.control.lr')}</div>
-            <input type="number" step={0.05} min={0.05} max={5} value={lr} onChange={(e) => setLr(parseFloat(e.target.value || '0.5'))} />
+            <div className="muted">{t('feedback.label')}</div>
+            <select value={feedback} onChange={(e) => setFeedback(e.target.value as FeedbackMode)} title={t(`feedback.${feedback}.hint`)}>
+              {FEEDBACK_MODES.map((f) => <option key={f} value={f}>{t(`feedback.${f}`)}</option>)}
+            </select>
           </div>
           <div className="row" style={{ gap: 8, marginLeft: 'auto' }}>
             <button className="primary" onClick={runEval} disabled={running}>{t('eval.control.run')}</button>
+            {running && <button onClick={cancelEval} disabled={runId == null}>{t('eval.control.cancel')}</button>}
           </div>
         </div>
+        {progress && (
+          <div className="col" style={{ gap: 4, marginTop: 12 }}>
+            <div className="muted">
+              {t('eval.progress', { status: t(`eval.status.${progress.status}`), pct: progress.total ? Math.floor((100 * progress.done) / progress.total) : 0 })}
+              {progress.error ? ` · ${progress.error}` : ''}
+            </div>
+            <div style={{ height: 6, borderRadius: 3, background: 'rgba(148, 163, 184, 0.2)' }}>
+              <div style={{ height: '100%', borderRadius: 3, background: '#60a5fa', width: `${progress.total ? (100 * progress.done) / progress.total : 0}%` }} />
+            </div>
+          </div>
+        )}
+        {startError && <div className="muted" style={{ marginTop: 12 }}>{t('eval.startError', { error: startError })}</div>}
+        {resultsError && <div className="muted" style={{ marginTop: 12 }}>{t('eval.resultsError', { error: resultsError })}</div>}
+        {([['A', algA, paramsA, setParamsA], ['B', algB, paramsB, setParamsB]] as const).map(([side, alg, values, setValues]) => {
+          const defs = algorithms.find((a) => a.id === alg)?.params;
+          return (
+            <div key={side} className="row" style={{ gap: 12, flexWrap: 'wrap', marginTop: 12, alignItems: 'flex-end' }}>
+              <div className="muted" style={{ minWidth: 170 }}>{t(side === 'A' ? 'eval.control.paramsA' : 'eval.control.paramsB')}</div>
+              {defs?.length
+                ? <HyperparamFields defs={defs} values={values} onChange={setValues} disabled={running} />
+                : <div className="muted">{t('eval.control.noParams')}</div>}
+            </div>
+          );
+        })}
       </div>
 
       {summaryView}
@@ -368,6 +542,7 @@ const EvalPage: React.FC = () => {
                 {availableEps.map((ep) => <option key={ep} value={ep}>{ep}</option>)}
               </select>
             </div>
+            <button onClick={() => runId != null && loadTrace(runId)} disabled={runId == null || progress?.status !== 'done' || !!trace || traceLoading}>{t('eval.loadTrace')}</button>
             <button onClick={downloadTraceCsv} disabled={!trace || !trace.steps.length}>{t('eval.downloadTrace')}</button>
           </div>
         </div>
@@ -376,6 +551,7 @@ const EvalPage: React.FC = () => {
             <ReactECharts echarts={echarts} option={decisionOption} style={{ height: 300 }} />
             {!trace && <div className="muted" style={{ marginTop: 8 }}>{t('eval.noTrace')}</div>}
             {traceLoading && <div className="muted" style={{ marginTop: 8 }}>{t('eval.loadingTrace')}</div>}
+            {traceError && <div className="muted" style={{ marginTop: 8 }}>{t('eval.traceError', { error: traceError })}</div>}
           </div>
           <div className="col" style={{ flex: '0 0 320px', minWidth: 260, gap: 8 }}>
             <div className="muted">{t('eval.latestSteps')}</div>
@@ -403,6 +579,57 @@ const EvalPage: React.FC = () => {
         </div>
       </div>
 
+      {trace && (
+        <div className="card" style={{ marginBottom: 16 }}>
+          <div className="section-header">
+            <div>
+              <h3 className="page-title" style={{ fontSize: '1.05rem' }}>{t('eval.strategyTitle')}</h3>
+              <p className="page-subtitle">{t('eval.strategySubtitle')}</p>
+            </div>
+          </div>
+          <div className="row" style={{ gap: 16, flexWrap: 'wrap' }}>
+            {(['A', 'B'] as const).map((side) => (
+              <div key={side} style={{ flex: 1, minWidth: 320 }}>
+                <div className="muted">{side === 'A' ? t('phase.trajA') : t('phase.trajB')}</div>
+                <ReactECharts echarts={echarts} option={strategyOption(side)} style={{ height: 260 }} />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {trace && (
+        <div className="card" style={{ marginBottom: 16 }}>
+          <div className="section-header">
+            <div>
+              <h3 className="page-title" style={{ fontSize: '1.05rem' }}>{t('phase.title')}</h3>
+              <p className="page-subtitle">{t('phase.subtitle')}</p>
+            </div>
+          </div>
+          <PhasePlot
+            gameId={game}
+            gameParams={gameParams}
+            actsA={trace.actsA}
+            actsB={trace.actsB}
+            trajA={filteredSteps.map((s) => s.pA)}
+            trajB={filteredSteps.map((s) => s.pB)}
+          />
+        </div>
+      )}
+
+      <div className="card" style={{ marginBottom: 16 }}>
+        <div className="section-header">
+          <div>
+            <h3 className="page-title" style={{ fontSize: '1.05rem' }}>{t('corr.title')}</h3>
+            <p className="page-subtitle">{t('corr.evalSubtitle')}</p>
+          </div>
+        </div>
+        <CorrelatedPanel
+          body={runId != null && traceSeed != null && traceEp != null ? { eval_run_id: runId, seed: traceSeed, ep: traceEp } : null}
+          disabled={running}
+        />
+      </div>
+
       <div className="col" style={{ gap: 16 }}>
         <div className="card">
           <div className="section-header">
@@ -422,7 +649,7 @@ const EvalPage: React.FC = () => {
           </div>
           <ReactECharts echarts={echarts} option={rewardOption} style={{ height: 260 }} />
         </div>
-        {game === 'pd' ? (
+        {!zeroSum ? (
           <div className="card">
             <div className="section-header">
               <div>
@@ -443,6 +670,15 @@ const EvalPage: React.FC = () => {
             <ReactECharts echarts={echarts} option={l2Option} style={{ height: 260 }} />
           </div>
         )}
+        <div className="card">
+          <div className="section-header">
+            <div>
+              <h3 className="page-title" style={{ fontSize: '1.05rem' }}>{t('eval.nashConvTitle')}</h3>
+              <p className="page-subtitle">{t('eval.nashConvSubtitle')}</p>
+            </div>
+          </div>
+          <ReactECharts echarts={echarts} option={nashConvOption} style={{ height: 260 }} />
+        </div>
       </div>
     </div>
   );
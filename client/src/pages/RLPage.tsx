@@ -2,17 +2,19 @@ import React, { useMemo, useState } from 'react';
 import ReactECharts from 'echarts-for-react';
 import * as echarts from 'echarts';
 import api from '../api';
+import { Schedulable } from '../algos';
+import GameParamsFields from '../components/GameParamsFields';
+import ScheduleField from '../components/ScheduleField';
+import { gameLabel, useGames } from '../games';
 import { useI18n } from '../i18n';
 
-type GameId = 'rps' | 'mp' | 'pd';
-
 type TrainResp = {
   run_id: string;
   config: {
-    game: GameId;
+    game: string;
     episodes: number;
     stepsPerEp: number;
-    lr: number;
+    lr: Schedulable;
     hidden: number;
   };
   logs: Array<{ ep: number; avgRewardA: number; avgRewardB: number; winA: number | null }>;
@@ -36,10 +38,12 @@ type DistributedTrainResp = {
 type TrainRespUnion = TrainResp | DistributedTrainResp;
 
 const RLPage: React.FC = () => {
-  const [game, setGame] = useState<GameId>('pd');
+  const { games } = useGames();
+  const [gameParams, setGameParams] = useState<Record<string, number>>({});
+  const [game, setGame] = useState<string>('pd');
   const [episodes, setEpisodes] = useState(80);
   const [stepsPerEp, setStepsPerEp] = useState(200);
-  const [lr, setLr] = useState(0.05);
+  const [lr, setLr] = useState<Schedulable>(0.05); // t counts episodes for scheduled rates
   const [hidden, setHidden] = useState(16);
   const [seed, setSeed] = useState(1234);
   const [running, setRunning] = useState(false);
@@ -53,7 +57,7 @@ const RLPage: React.FC = () => {
     setResult(null);
     try {
       const path = distributed ? '/api/rl/train/distributed' : '/api/rl/train';
-      const body = distributed ? { game, episodes, stepsPerEp, lr, hidden, seed, workers } : { game, episodes, stepsPerEp, lr, hidden, seed };
+      const body = distributed ? { game, gameParams, episodes, stepsPerEp, lr, hidden, seed, workers } : { game, gameParams, episodes, stepsPerEp, lr, hidden, seed };
       const res = await api.post(path, body);
       setResult(res.data);
     } finally {
@@ -111,12 +115,11 @@ const RLPage: React.FC = () => {
         <div className="row" style={{ gap: 12, flexWrap: 'wrap' }}>
           <div className="col">
             <div className="muted">{t('rl.control.game')}</div>
-            <select value={game} onChange={(e) => setGame(e.target.value as GameId)}>
-              <option value="pd">{t('rl.control.pd')}</option>
-              <option value="rps">{t('rl.control.rps')}</option>
-              <option value="mp">{t('rl.control.mp')}</option>
+            <select value={game} onChange={(e) => { setGame(e.target.value); setGameParams({}); }}>
+              {games.map((g) => <option key={g.id} value={g.id}>{gameLabel(g, t)}</option>)}
             </select>
           </div>
+          <GameParamsFields defs={games.find((g) => g.id === game)?.paramDefs} values={gameParams} onChange={setGameParams} disabled={running} />
           <div className="col">
             <div className="muted">{t('rl.control.episodes')}</div>
             <input type="number" min={10} max={5000} value={episodes} onChange={(e) => setEpisodes(parseInt(e.target.value || '1', 10))} />
@@ -125,10 +128,7 @@ const RLPage: React.FC = () => {
             <div className="muted">{t('rl.control.stepsPerEp')}</div>
             <input type="number" min={20} max={5000} value={stepsPerEp} onChange={(e) => setStepsPerEp(parseInt(e.target.value || '20', 10))} />
           </div>
-          <div className="col">
-            <div className="muted">{t('rl.control.lr')}</div>
-            <input type="number" step={0.01} min={0.001} max={1} value={lr} onChange={(e) => setLr(parseFloat(e.target.value || '0.05'))} />
-          </div>
+          <ScheduleField label={t('rl.control.lr')} value={lr} step={0.01} min={0.001} max={1} onChange={setLr} disabled={running} />
           <div className="col">
             <div className="muted">{t('rl.control.hidden')}</div>
             <input type="number" min={4} max={128} value={hidden} onChange={(e) => setHidden(parseInt(e.target.value || '16', 10))} />
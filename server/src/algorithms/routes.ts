@@ -0,0 +1,19 @@
+import express, { Response } from 'express';
+import { AuthedRequest, requireAuth } from '../auth';
+import { ALGORITHMS } from '../eval/algos';
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+// GET /api/algorithms -> registered learners with their hyperparameter schemas
+router.get('/', (_req: AuthedRequest, res: Response) => {
+  try {
+    const list = Object.values(ALGORITHMS).map(({ make, ...def }) => def);
+    return res.json(list);
+  } catch (err) {
+    return res.status(500).json({ error: 'internal_error' });
+  }
+});
+
+export { router as algorithmsRouter };
@@ -0,0 +1,64 @@
+import { RunControl, Runner } from './engine';
+
+// Playback commands accepted both as socket events and as POST /api/arena/<command>;
+// `move` submits the human player's action in an interactive run and `intervene` changes a live run
+// (see interventions.ts)
+export type ArenaCommand = 'pause' | 'resume' | 'step' | 'speed' | 'move' | 'intervene';
+
+export const ARENA_COMMANDS: ArenaCommand[] = ['pause', 'resume', 'step', 'speed', 'move', 'intervene'];
+
+export type CommandResult = { control: RunControl } | { error: string };
+
+function optionalPositive(x: any): number | undefined | null {
+  if (x == null) return undefined;
+  const n = Number(x);
+  return Number.isFinite(n) && n >= 1 ? n : null;
+}
+
+export function applyCommand(runner: Runner, cmd: ArenaCommand, args: any): CommandResult {
+  const { status } = runner.getControl();
+  const finished = status === 'done' || status === 'stopped';
+  switch (cmd) {
+    case 'pause':
+      if (finished) return { error: 'run_finished' };
+      runner.pause();
+      break;
+    case 'resume':
+      if (finished) return { error: 'run_finished' };
+      runner.start();
+      break;
+    case 'step': {
+      if (finished) return { error: 'run_finished' };
+      if (status !== 'paused') return { error: 'not_paused' };
+      const n = optionalPositive(args?.n);
+      if (n === null) return { error: 'invalid_steps' };
+      runner.step(n ?? 1);
+      break;
+    }
+    case 'speed': {
+      const ticksPerSecond = optionalPositive(args?.ticksPerSecond);
+      const stepsPerTick = optionalPositive(args?.stepsPerTick);
+      if (ticksPerSecond === null || stepsPerTick === null) return { error: 'invalid_speed' };
+      runner.setSpeed({ ticksPerSecond, stepsPerTick });
+      break;
+    }
+    case 'move': {
+      if (!runner.human) return { error: 'not_interactive' };
+      if (finished) return { error: 'run_finished' };
+      const action = Number(args?.action);
+      if (!Number.isInteger(action) || action < 0 || action >= runner.human.acts) return { error: 'invalid_action' };
+      if (!runner.human.move(action)) return { error: 'move_queue_full' };
+      break;
+    }
+    case 'intervene': {
+      if (!runner.intervene) return { error: 'not_live' };
+      if (finished) return { error: 'run_finished' };
+      const error = runner.intervene(args);
+      if (error) return { error };
+      break;
+    }
+    default:
+      return { error: 'invalid_command' };
+  }
+  return { control: runner.getControl() };
+}
@@ -0,0 +1,76 @@
+import { exploitability } from '../solve/exploitability';
+
+type Vec = number[];
+
+export const MA_WINDOW = 100; // steps the moving-average reward roughly spans
+
+// Convergence measures sent with every tick
+export interface Diagnostics {
+  regretA: number; // cumulative external regret: best fixed action in hindsight minus what the mix earned
+  regretB: number;
+  exploitA: number; // best-response gains against the current strategies
+  exploitB: number;
+  nashConv: number;
+  avgExploitA: number; // the same against the time-averaged strategies
+  avgExploitB: number;
+  avgNashConv: number;
+  entropyA: number; // of the current strategies, in nats
+  entropyB: number;
+  maRewardA: number; // exponential moving average of the realized rewards
+  maRewardB: number;
+}
+
+// Running sums behind the regrets and moving averages; updated in O(nA + nB) per step and kept in
+// run snapshots so a fork carries them on
+export interface DiagState {
+  fixedA: Vec; // payoff each fixed action of A would have earned against B's realized actions
+  fixedB: Vec;
+  earnedA: number; // expected payoff of the played mixes against the realized actions
+  earnedB: number;
+  maRewardA: number;
+  maRewardB: number;
+}
+
+export function initDiagnostics(nA: number, nB: number): DiagState {
+  return { fixedA: Array(nA).fill(0), fixedB: Array(nB).fill(0), earnedA: 0, earnedB: 0, maRewardA: 0, maRewardB: 0 };
+}
+
+// Folds in step `iter` (1-based) with the payoffs it was played under. The moving average is the plain
+// mean for the first MA_WINDOW steps, so it has no start-up bias.
+export function observe(st: DiagState, iter: number, A: number[][], B: number[][], round: { pA: Vec; pB: Vec; a: number; b: number; rA: number; rB: number }) {
+  for (let i = 0; i < st.fixedA.length; i++) {
+    st.fixedA[i] += A[i][round.b];
+    st.earnedA += round.pA[i] * A[i][round.b];
+  }
+  for (let j = 0; j < st.fixedB.length; j++) {
+    st.fixedB[j] += B[round.a][j];
+    st.earnedB += round.pB[j] * B[round.a][j];
+  }
+  const alpha = 1 / Math.min(iter, MA_WINDOW);
+  st.maRewardA += alpha * (round.rA - st.maRewardA);
+  st.maRewardB += alpha * (round.rB - st.maRewardB);
+}
+
+function entropy(p: Vec): number {
+  return -p.reduce((acc, pi) => (pi > 0 ? acc + pi * Math.log(pi) : acc), 0);
+}
+
+// Exploitability and entropy only need the strategies, so they are evaluated once per tick
+export function report(st: DiagState, A: number[][], B: number[][], dist: { pA: Vec; pB: Vec; avgA: Vec; avgB: Vec }): Diagnostics {
+  const last = exploitability(A, B, dist.pA, dist.pB);
+  const avg = exploitability(A, B, dist.avgA, dist.avgB);
+  return {
+    regretA: Math.max(...st.fixedA) - st.earnedA,
+    regretB: Math.max(...st.fixedB) - st.earnedB,
+    exploitA: last.gainA,
+    exploitB: last.gainB,
+    nashConv: last.nashConv,
+    avgExploitA: avg.gainA,
+    avgExploitB: avg.gainB,
+    avgNashConv: avg.nashConv,
+    entropyA: entropy(dist.pA),
+    entropyB: entropy(dist.pB),
+    maRewardA: st.maRewardA,
+    maRewardB: st.maRewardB,
+  };
+}
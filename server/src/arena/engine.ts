@@ -1,14 +1,36 @@
 import { v4 as uuidv4 } from 'uuid';
-
-export type GameId = 'rps' | 'mp' | 'pd';
+import { createMatch, MatchConfig, MatchState, mulberry32 } from '../eval/match';
+import { GameId, GameSpec } from '../types';
+import { DiagState, Diagnostics, initDiagnostics, observe, report } from './diagnostics';
+import { applyIntervention, ArenaEvent, Intervention, parseIntervention } from './interventions';
 
 type Vec = number[];
 
-export interface ArenaOptions {
+// Learners are configured like an Eval run: a live run with seed s replays episode 1 of seed s
+export interface ArenaOptions extends MatchConfig {
   game: GameId;
   stepsPerTick?: number; // batch size per onTick
+  ticksPerSecond?: number;
   seed?: number;
-  lr?: number; // learning rate for Hedge
+  maxIter?: number; // the run finishes by itself after this many steps; unbounded when absent
+  interventions?: Intervention[]; // scheduled from the start; more can be added while the run plays
+}
+
+export const MAX_TICKS_PER_SECOND = 60;
+export const MAX_STEPS_PER_TICK = 1000;
+export const MAX_PENDING_MOVES = 16;
+export const MAX_SCHEDULED_INTERVENTIONS = 64; // future interventions a run holds, including those of start and fork bodies
+
+// `done`: reached maxIter (or the end of a replay); `stopped`: ended by a stop request
+export type RunStatus = 'running' | 'paused' | 'done' | 'stopped';
+
+// Playback state of a run; sent as `status` on the socket whenever it changes
+export interface RunControl {
+  status: RunStatus;
+  iter: number;
+  maxIter: number | null;
+  ticksPerSecond: number;
+  stepsPerTick: number;
 }
 
 export interface TickPayload {
@@ -18,191 +40,315 @@ export interface TickPayload {
   rewardMean: number;
   distA: number[];
   distB: number[];
+  avgDistA: number[]; // time-averaged strategies since the run started
+  avgDistB: number[];
   lastActionA: number;
   lastActionB: number;
   jointCounts: number[][];
+  totalRewardA: number; // running scoreboard since the run started
+  totalRewardB: number;
+  outcomes: { winA: number; draw: number; winB: number }; // rounds where A earned more, the same, or less than B
+  events?: ArenaEvent[]; // interventions applied since the previous tick
+  diagnostics?: Diagnostics; // live runs; absent from replays recorded before they existed
 }
 
 export interface Runner {
   run_id: string;
-  start: () => void;
+  start: () => void; // also resumes a paused run
+  pause: () => void;
   stop: () => void;
+  step: (n: number) => void; // advances a paused run by up to n steps
+  setSpeed: (speed: { ticksPerSecond?: number; stepsPerTick?: number }) => void;
   onTick: (cb: (p: TickPayload) => void) => () => void; // returns unsubscribe
+  onStatus: (cb: (c: RunControl) => void) => () => void;
   getState: () => TickPayload;
+  getControl: () => RunControl;
+  getUsage: () => RunUsage;
+  human?: HumanSeat; // present when one side is played by a person
+  intervene?: (raw: any) => string | null; // live runs only; returns an error code or null once applied/scheduled
+  save?: () => RunSnapshot; // live runs only
 }
 
-type GameSpec = {
-  id: GameId;
-  actsA: string[];
-  actsB: string[];
-  A: number[][]; // payoff for A
-  B: number[][]; // payoff for B
-};
-
-const GAMES: Record<GameId, GameSpec> = {
-  rps: {
-    id: 'rps',
-    actsA: ['R', 'P', 'S'],
-    actsB: ['R', 'P', 'S'],
-    A: [
-      [0, -1, 1],
-      [1, 0, -1],
-      [-1, 1, 0],
-    ],
-    B: [
-      [0, 1, -1],
-      [-1, 0, 1],
-      [1, -1, 0],
-    ],
-  },
-  mp: {
-    id: 'mp',
-    actsA: ['H', 'T'],
-    actsB: ['H', 'T'],
-    A: [
-      [1, -1],
-      [-1, 1],
-    ],
-    B: [
-      [-1, 1],
-      [1, -1],
-    ],
-  },
-  pd: {
-    id: 'pd',
-    actsA: ['C', 'D'],
-    actsB: ['C', 'D'],
-    A: [
-      [3, 0],
-      [5, 1],
-    ],
-    B: [
-      [3, 5],
-      [0, 1],
-    ],
-  },
-};
-
-function mulberry32(seed: number) {
-  let t = seed >>> 0;
-  return function () {
-    t += 0x6D2B79F5;
-    let x = Math.imul(t ^ (t >>> 15), 1 | t);
-    x ^= x + Math.imul(x ^ (x >>> 7), 61 | x);
-    return ((x ^ (x >>> 14)) >>> 0) / 4294967296;
-  };
+// Serializable state of a live run: the match (learner weights, strategies, payoffs), the generator state
+// and the run's counters. `createRunner(spec, opts, snapshot)` continues from it; queued human moves are
+// not part of it.
+export interface RunSnapshot {
+  iter: number;
+  rng: number;
+  match: MatchState;
+  jointCounts: number[][];
+  sumA: Vec;
+  sumB: Vec;
+  lastActionA: number;
+  lastActionB: number;
+  rewardA: number;
+  rewardB: number;
+  totalRewardA: number;
+  totalRewardB: number;
+  outcomes: { winA: number; draw: number; winB: number };
+  scheduled: Intervention[];
+  diag: DiagState;
 }
 
-function normalize(v: Vec): Vec {
-  const s = v.reduce((a, b) => a + b, 0);
-  if (s <= 0) return v.map(() => 1 / v.length);
-  return v.map((x) => x / s);
+// Steps run synchronously on the event loop, so the time spent advancing is the runner's CPU time
+export interface RunUsage {
+  createdAt: number; // ms since epoch
+  busyMs: number;
 }
 
-function expectedPayoffVector(M: number[][], opp: Vec): Vec {
-  return M.map((row) => row.reduce((acc, mij, j) => acc + mij * opp[j], 0));
+// The human's side of an interactive run. Moves are queued and each one is played as a single step on the
+// next timer beat, so pause, step and speed apply to them like to any other run.
+export interface HumanSeat {
+  side: 'A' | 'B';
+  acts: number;
+  move: (action: number) => boolean; // false when MAX_PENDING_MOVES are already waiting
 }
 
-function sampleIndex(p: Vec, rng: () => number): number {
-  const r = rng();
-  let acc = 0;
-  for (let i = 0; i < p.length; i++) {
-    acc += p[i];
-    if (r <= acc) return i;
+function clampInt(x: number, lo: number, hi: number): number {
+  return Math.min(hi, Math.max(lo, Math.floor(x)));
+}
+
+// What a playback loop drives: `advance(n)` does up to n units of work (simulation steps, or stored ticks
+// for a replay), never past the end, and returns the payloads to broadcast
+export interface TickSource {
+  advance: (n: number) => TickPayload[];
+  finished: () => boolean;
+  iter: () => number;
+  maxIter: number | null;
+  snapshot: () => TickPayload;
+  human?: HumanSeat;
+  intervene?: (raw: any) => string | null;
+  save?: () => RunSnapshot;
+}
+
+// Timer, playback status and listeners shared by live runs and replays. Runs are created paused.
+export function createPlayback(run_id: string, source: TickSource, speed: { ticksPerSecond?: number; stepsPerTick?: number }): Runner {
+  let stepsPerTick = clampInt(speed.stepsPerTick ?? 10, 1, MAX_STEPS_PER_TICK);
+  let ticksPerSecond = clampInt(speed.ticksPerSecond ?? 30, 1, MAX_TICKS_PER_SECOND);
+  let status: RunStatus = 'paused';
+  let timer: NodeJS.Timeout | null = null;
+  const listeners = new Set<(p: TickPayload) => void>();
+  const statusListeners = new Set<(c: RunControl) => void>();
+  const createdAt = Date.now();
+  let busyMs = 0;
+
+  function getControl(): RunControl {
+    return { status, iter: source.iter(), maxIter: source.maxIter, ticksPerSecond, stepsPerTick };
+  }
+
+  function announce() {
+    const control = getControl();
+    for (const cb of statusListeners) cb(control);
+  }
+
+  function setStatus(next: RunStatus) {
+    if (status === next) return;
+    status = next;
+    announce();
+  }
+
+  function advance(n: number) {
+    const t0 = performance.now();
+    for (const payload of source.advance(n)) {
+      for (const cb of listeners) cb(payload);
+    }
+    busyMs += performance.now() - t0;
+    if (source.finished()) {
+      clearTimer();
+      setStatus('done');
+    }
+  }
+
+  function clearTimer() {
+    if (timer) clearInterval(timer);
+    timer = null;
+  }
+
+  function schedule() {
+    clearTimer();
+    timer = setInterval(() => advance(stepsPerTick), 1000 / ticksPerSecond);
   }
-  return p.length - 1;
+
+  const start = () => {
+    if (status !== 'paused') return;
+    setStatus('running');
+    schedule();
+  };
+
+  const pause = () => {
+    if (status !== 'running') return;
+    clearTimer();
+    setStatus('paused');
+  };
+
+  const stop = () => {
+    clearTimer();
+    setStatus('stopped');
+  };
+
+  const step = (n: number) => {
+    if (status !== 'paused') return;
+    advance(clampInt(n, 1, MAX_STEPS_PER_TICK));
+  };
+
+  const setSpeed = (next: { ticksPerSecond?: number; stepsPerTick?: number }) => {
+    if (next.ticksPerSecond != null) ticksPerSecond = clampInt(next.ticksPerSecond, 1, MAX_TICKS_PER_SECOND);
+    if (next.stepsPerTick != null) stepsPerTick = clampInt(next.stepsPerTick, 1, MAX_STEPS_PER_TICK);
+    if (status === 'running') schedule();
+    announce();
+  };
+
+  const onTick = (cb: (p: TickPayload) => void) => {
+    listeners.add(cb);
+    return () => listeners.delete(cb);
+  };
+
+  const onStatus = (cb: (c: RunControl) => void) => {
+    statusListeners.add(cb);
+    return () => statusListeners.delete(cb);
+  };
+
+  return { run_id, start, pause, stop, step, setSpeed, onTick, onStatus, getState: source.snapshot, getControl, getUsage: () => ({ createdAt, busyMs }), human: source.human, intervene: source.intervene, save: source.save };
 }
 
-export function createRunner(opts: ArenaOptions): Runner {
-  const spec = GAMES[opts.game];
-  if (!spec) throw new Error('invalid game');
-  const lr = opts.lr ?? 0.5;
-  const stepsPerTick = Math.max(1, opts.stepsPerTick ?? 10);
+// With `from` the run continues a snapshot (see RunSnapshot); `opts` must seat humans and policies as the
+// snapshotted run did, and its `interventions` are scheduled on top of the snapshot's pending ones
+export function createRunner(spec: GameSpec, opts: ArenaOptions, from?: RunSnapshot): Runner {
+  const maxIter = opts.maxIter != null ? Math.max(1, Math.floor(opts.maxIter)) : null;
   const seed = opts.seed ?? 1234;
   const rng = mulberry32(seed);
-  const run_id = uuidv4();
-
-  const actsA = spec.actsA;
-  const actsB = spec.actsB;
-  const A = spec.A;
-  const B = spec.B;
-  const nA = actsA.length;
-  const nB = actsB.length;
-  let wA: Vec = Array(nA).fill(1);
-  let wB: Vec = Array(nB).fill(1);
-  let pA: Vec = normalize([...wA]);
-  let pB: Vec = normalize([...wB]);
+
+  const nA = spec.actsA.length;
+  const nB = spec.actsB.length;
+  const match = createMatch(spec, opts, rng);
+  let pA: Vec = Array(nA).fill(1 / nA);
+  let pB: Vec = Array(nB).fill(1 / nB);
   let jointCounts: number[][] = Array.from({ length: nA }, () => Array(nB).fill(0));
+  let sumA: Vec = Array(nA).fill(0);
+  let sumB: Vec = Array(nB).fill(0);
   let iter = 0;
   let lastActionA = 0;
   let lastActionB = 0;
   let rewardA = 0;
   let rewardB = 0;
-  let timer: NodeJS.Timeout | null = null;
-  const listeners = new Set<(p: TickPayload) => void>();
+  let totalRewardA = 0;
+  let totalRewardB = 0;
+  let outcomes = { winA: 0, draw: 0, winB: 0 };
+  let diag = initDiagnostics(nA, nB);
+  const pendingMoves: number[] = [];
+  const scheduled: Intervention[] = []; // ordered by `at`
+  let events: ArenaEvent[] = [];
+
+  function schedule(iv: Intervention) {
+    const i = scheduled.findIndex((x) => x.at! > iv.at!);
+    scheduled.splice(i < 0 ? scheduled.length : i, 0, iv);
+  }
+  if (from) {
+    const copy: RunSnapshot = JSON.parse(JSON.stringify(from));
+    match.restore(copy.match);
+    rng.restore(copy.rng);
+    ({ iter, jointCounts, sumA, sumB, lastActionA, lastActionB, rewardA, rewardB, totalRewardA, totalRewardB, outcomes, diag } = copy);
+    pA = copy.match.pA;
+    pB = copy.match.pB;
+    scheduled.push(...copy.scheduled);
+  }
+  for (const iv of opts.interventions ?? []) schedule({ ...iv, at: iv.at ?? iter });
+
+  function save(): RunSnapshot {
+    return JSON.parse(JSON.stringify({
+      iter, rng: rng.state(), match: match.save(), jointCounts, sumA, sumB,
+      lastActionA, lastActionB, rewardA, rewardB, totalRewardA, totalRewardB, outcomes, scheduled, diag,
+    }));
+  }
 
   function stepOnce() {
-    // Hedge
-    const uA = expectedPayoffVector(A, pB);
-    const uB = expectedPayoffVector(B, pA);
-    const sA = Math.max(1, ...uA.map((x) => Math.abs(x)));
-    const sB = Math.max(1, ...uB.map((x) => Math.abs(x)));
-    wA = wA.map((w, i) => w * Math.exp((lr / sA) * uA[i]));
-    wB = wB.map((w, i) => w * Math.exp((lr / sB) * uB[i]));
-    pA = normalize(wA);
-    pB = normalize(wB);
-    lastActionA = sampleIndex(pA, rng);
-    lastActionB = sampleIndex(pB, rng);
-    rewardA = A[lastActionA][lastActionB];
-    rewardB = B[lastActionA][lastActionB];
+    while (scheduled.length && scheduled[0].at! <= iter) {
+      events.push(applyIntervention(match, scheduled.shift()!, iter, rng));
+    }
+    const { A, B } = match.payoffs(); // before playing: a perturbation may have just replaced them
+    const round = match.play(opts.human ? pendingMoves.shift() : undefined);
+    ({ pA, pB } = round);
+    for (let i = 0; i < nA; i++) sumA[i] += pA[i];
+    for (let j = 0; j < nB; j++) sumB[j] += pB[j];
+    lastActionA = round.a;
+    lastActionB = round.b;
+    rewardA = round.rA;
+    rewardB = round.rB;
     jointCounts[lastActionA][lastActionB] += 1;
+    totalRewardA += rewardA;
+    totalRewardB += rewardB;
+    if (rewardA > rewardB) outcomes.winA += 1;
+    else if (rewardA < rewardB) outcomes.winB += 1;
+    else outcomes.draw += 1;
     iter += 1;
+    observe(diag, iter, A, B, round);
   }
 
-  function emitTick() {
-    const payload: TickPayload = {
+  function snapshot(): TickPayload {
+    const avgDistA = iter ? sumA.map((x) => x / iter) : [...pA];
+    const avgDistB = iter ? sumB.map((x) => x / iter) : [...pB];
+    const { A, B } = match.payoffs();
+    return {
       iter,
       rewardA,
       rewardB,
       rewardMean: (rewardA + rewardB) / 2,
       distA: [...pA],
       distB: [...pB],
+      avgDistA,
+      avgDistB,
       lastActionA,
       lastActionB,
       jointCounts: jointCounts.map((row) => [...row]),
+      totalRewardA,
+      totalRewardB,
+      outcomes: { ...outcomes },
+      diagnostics: report(diag, A, B, { pA, pB, avgA: avgDistA, avgB: avgDistB }),
     };
-    for (const cb of listeners) cb(payload);
   }
 
-  const start = () => {
-    if (timer) return;
-    timer = setInterval(() => {
-      for (let i = 0; i < stepsPerTick; i++) stepOnce();
-      emitTick();
-    }, 0);
-  };
-
-  const stop = () => {
-    if (timer) clearInterval(timer);
-    timer = null;
+  // One tick per batch of steps; a batch never runs past maxIter and, with a human side, waits for moves
+  const source: TickSource = {
+    advance: (n) => {
+      const limit = opts.human ? Math.min(n, pendingMoves.length) : n;
+      const todo = maxIter != null ? Math.min(limit, maxIter - iter) : limit;
+      for (let i = 0; i < todo; i++) stepOnce();
+      if (todo <= 0) return [];
+      const payload = snapshot();
+      if (events.length) {
+        payload.events = events;
+        events = [];
+      }
+      return [payload];
+    },
+    finished: () => maxIter != null && iter >= maxIter,
+    iter: () => iter,
+    maxIter,
+    snapshot,
+    human: opts.human && {
+      side: opts.human,
+      acts: opts.human === 'A' ? nA : nB,
+      move: (action) => {
+        if (pendingMoves.length >= MAX_PENDING_MOVES) return false;
+        pendingMoves.push(action);
+        return true;
+      },
+    },
+    // Immediate interventions are applied right away (they affect the next step either way) and must fit the run
+    intervene: (raw) => {
+      const iv = parseIntervention(raw, nA, nB);
+      if ('error' in iv) return iv.error;
+      if (iv.at != null && iv.at > iter) {
+        if (scheduled.length >= MAX_SCHEDULED_INTERVENTIONS) return 'invalid_intervention';
+        schedule(iv);
+        return null;
+      }
+      const event = applyIntervention(match, iv, iter, rng);
+      if (!event.applied) return 'not_applicable';
+      events.push(event);
+      return null;
+    },
+    save,
   };
-
-  const onTick = (cb: (p: TickPayload) => void) => {
-    listeners.add(cb);
-    return () => listeners.delete(cb);
-  };
-
-  const getState = (): TickPayload => ({
-    iter,
-    rewardA,
-    rewardB,
-    rewardMean: (rewardA + rewardB) / 2,
-    distA: [...pA],
-    distB: [...pB],
-    lastActionA,
-    lastActionB,
-    jointCounts: jointCounts.map((row) => [...row]),
-  });
-
-  return { run_id, start, stop, onTick, getState };
+  return createPlayback(uuidv4(), source, opts);
 }
@@ -0,0 +1,29 @@
+import { Runner, TickPayload } from './engine';
+
+export const HISTORY_POINTS = 500;
+export const MAX_EVENT_TICKS = 125; // event ticks spared by thinning; beyond this they are thinned like the rest
+
+// Bounded history of a run's ticks for viewers who join late. When it fills up every other tick is dropped
+// and from then on only every `stride`-th tick is kept, so it always spans the whole run at an even
+// resolution. Ticks carrying intervention events skip the stride and survive thinning while at most
+// MAX_EVENT_TICKS of them are kept; beyond that they are thinned like the rest, so a client intervening on
+// every step cannot grow the history past HISTORY_POINTS.
+export function trackHistory(runner: Runner): { list: () => TickPayload[]; dispose: () => void } {
+  let ticks: TickPayload[] = [];
+  let stride = 1;
+  let seen = 0;
+  let events = 0; // kept ticks carrying events
+  const dispose = runner.onTick((payload) => {
+    seen += 1;
+    const spare = !!payload.events && events < MAX_EVENT_TICKS;
+    if (seen % stride !== 0 && !spare) return;
+    ticks.push(payload);
+    if (payload.events) events += 1;
+    if (ticks.length <= HISTORY_POINTS) return;
+    const keepEvents = events <= MAX_EVENT_TICKS;
+    ticks = ticks.filter((t, i) => i % 2 === 1 || (keepEvents && t.events));
+    events = ticks.filter((t) => t.events).length;
+    stride *= 2;
+  });
+  return { list: () => [...ticks], dispose };
+}
@@ -0,0 +1,114 @@
+import { isAlgId } from '../eval/algos';
+import { Match, Side } from '../eval/match';
+import { AlgId, AlgParams } from '../types';
+
+export type InterventionKind = 'retune' | 'swap' | 'perturb' | 'reset';
+
+export const INTERVENTION_KINDS: InterventionKind[] = ['retune', 'swap', 'perturb', 'reset'];
+
+// A change to a live run for non-stationarity experiments: new hyperparameters (e.g. `lr`) for one learner,
+// a different algorithm on one side, perturbed payoffs (replacement matrices and/or uniform noise of the
+// given amplitude) or a learner reset. With `at` it applies once the run has played `at` steps; without it,
+// before the next step.
+export interface Intervention {
+  kind: InterventionKind;
+  side?: Side; // required except for perturb
+  params?: AlgParams;
+  alg?: AlgId;
+  A?: number[][];
+  B?: number[][];
+  noise?: number;
+  at?: number;
+}
+
+// An applied intervention as it appears in the `events` of a tick: `iter` steps had been played, `params`
+// are the learner's resolved hyperparameters and `A`/`B` the payoffs from then on. `applied` is false when a
+// scheduled intervention no longer fit the run (e.g. retuning a side that plays a fixed policy).
+export interface ArenaEvent {
+  iter: number;
+  kind: InterventionKind;
+  side?: Side;
+  alg?: AlgId;
+  params?: AlgParams;
+  A?: number[][];
+  B?: number[][];
+  noise?: number;
+  applied: boolean;
+}
+
+function isMatrix(x: any, rows: number, cols: number): x is number[][] {
+  return Array.isArray(x) && x.length === rows && x.every((row: any) =>
+    Array.isArray(row) && row.length === cols && row.every((v: any) => typeof v === 'number' && Number.isFinite(v)));
+}
+
+function isParams(x: any): x is AlgParams {
+  return x != null && typeof x === 'object' && !Array.isArray(x);
+}
+
+// Validates a request body; `lr` is accepted as shorthand for `params: { lr }`
+export function parseIntervention(raw: any, nA: number, nB: number): Intervention | { error: string } {
+  const kind = raw?.kind;
+  if (!INTERVENTION_KINDS.includes(kind)) return { error: 'invalid_intervention' };
+  const iv: Intervention = { kind };
+  if (raw.at != null) {
+    const at = Number(raw.at);
+    if (!Number.isInteger(at) || at < 0) return { error: 'invalid_at' };
+    iv.at = at;
+  }
+  if (kind === 'perturb') {
+    if (raw.A != null) {
+      if (!isMatrix(raw.A, nA, nB)) return { error: 'invalid_payoffs' };
+      iv.A = raw.A;
+    }
+    if (raw.B != null) {
+      if (!isMatrix(raw.B, nA, nB)) return { error: 'invalid_payoffs' };
+      iv.B = raw.B;
+    }
+    if (raw.noise != null) {
+      const noise = Number(raw.noise);
+      if (!(noise > 0) || !Number.isFinite(noise)) return { error: 'invalid_noise' };
+      iv.noise = noise;
+    }
+    if (!iv.A && !iv.B && iv.noise == null) return { error: 'invalid_intervention' };
+    return iv;
+  }
+  if (raw.side !== 'A' && raw.side !== 'B') return { error: 'invalid_side' };
+  iv.side = raw.side;
+  const params = raw.lr != null ? { ...raw.params, lr: raw.lr } : raw.params;
+  if (params != null && !isParams(params)) return { error: 'invalid_params' };
+  if (kind === 'retune') {
+    if (!params) return { error: 'invalid_params' };
+    iv.params = params;
+  }
+  if (kind === 'swap') {
+    if (!isAlgId(raw.alg)) return { error: 'invalid_alg' };
+    iv.alg = raw.alg;
+    if (params) iv.params = params;
+  }
+  return iv;
+}
+
+// Applies an intervention to the match after `iter` steps; noise is drawn from the run's generator
+export function applyIntervention(match: Match, iv: Intervention, iter: number, rng: () => number): ArenaEvent {
+  const event: ArenaEvent = { iter, kind: iv.kind, applied: true };
+  switch (iv.kind) {
+    case 'retune': {
+      const params = match.retune(iv.side!, iv.params!);
+      return { ...event, side: iv.side, params: params ?? undefined, applied: params != null };
+    }
+    case 'swap': {
+      const params = match.swap(iv.side!, iv.alg!, iv.params);
+      return { ...event, side: iv.side, alg: iv.alg, params: params ?? undefined, applied: params != null };
+    }
+    case 'reset':
+      return { ...event, side: iv.side, applied: match.reset(iv.side!) };
+    case 'perturb': {
+      const current = match.payoffs();
+      const jitter = (M: number[][]) => M.map((row) => row.map((v) => v + (iv.noise ? (2 * rng() - 1) * iv.noise : 0)));
+      const A = jitter(iv.A ?? current.A);
+      const B = jitter(iv.B ?? current.B);
+      match.setPayoffs(A, B);
+      return { ...event, A, B, noise: iv.noise };
+    }
+  }
+}
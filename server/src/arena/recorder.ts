@@ -0,0 +1,73 @@
+import { createArenaRun, finishArenaRun, insertArenaTicks } from '../db';
+import { GameSpec } from '../types';
+import { Runner, TickPayload } from './engine';
+
+// `full` stores every tick, `downsampled` every DOWNSAMPLE_EVERY-th tick, those carrying intervention
+// events and the last one
+export type RecordMode = 'full' | 'downsampled';
+
+export const RECORD_MODES: RecordMode[] = ['full', 'downsampled'];
+
+export const DOWNSAMPLE_EVERY = 10;
+
+const FLUSH_EVERY = 100; // ticks per INSERT, well below SQLite's bound-variable limit
+
+export function isRecordMode(x: any): x is RecordMode {
+  return RECORD_MODES.includes(x);
+}
+
+// Stores a live run in arena_runs/arena_ticks until it finishes or is stopped. Writes are chained so
+// ticks land in order; a failing write is logged and never interrupts the run itself.
+// `spec` is stored with the run so forks keep playing the game as it was when the run started.
+export async function recordRun(runner: Runner, meta: {
+  user_id: number;
+  spec: GameSpec;
+  config: Record<string, any>;
+  record: RecordMode;
+}): Promise<void> {
+  const run_id = runner.run_id;
+  await createArenaRun({ id: run_id, user_id: meta.user_id, game: meta.spec.id, gameParams: meta.spec.params ?? null, spec: meta.spec, config: meta.config, record: meta.record });
+
+  let buffer: TickPayload[] = [];
+  let seen = 0;
+  let stored = 0;
+  let last: TickPayload | null = null;
+  let lastStoredIter = -1;
+  let closed = false;
+  let writes = Promise.resolve();
+
+  const write = (job: () => Promise<void>) => {
+    writes = writes.then(job).catch((err) => console.error('arena recorder error', err));
+  };
+
+  const flush = () => {
+    if (!buffer.length) return;
+    const batch = buffer.map((payload) => ({ iter: payload.iter, payload }));
+    buffer = [];
+    write(() => insertArenaTicks(run_id, batch));
+  };
+
+  const keep = (payload: TickPayload) => {
+    buffer.push(payload);
+    stored += 1;
+    lastStoredIter = payload.iter;
+    if (buffer.length >= FLUSH_EVERY) flush();
+  };
+
+  const offTick = runner.onTick((payload) => {
+    if (closed) return;
+    seen += 1;
+    last = payload;
+    if (meta.record === 'full' || seen % DOWNSAMPLE_EVERY === 1 || payload.events) keep(payload);
+  });
+
+  const offStatus = runner.onStatus((control) => {
+    if (closed || (control.status !== 'done' && control.status !== 'stopped')) return;
+    closed = true;
+    offTick();
+    offStatus();
+    if (last && last.iter !== lastStoredIter) keep(last);
+    flush();
+    write(() => finishArenaRun(run_id, control.status, control.iter, stored));
+  });
+}
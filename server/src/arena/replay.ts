@@ -0,0 +1,51 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getArenaTickBounds, getArenaTicksAfter } from '../db';
+import { createPlayback, MAX_STEPS_PER_TICK, Runner, TickPayload } from './engine';
+
+const PAGE_TICKS = 2 * MAX_STEPS_PER_TICK; // stored ticks read per query
+
+// Plays stored tick payloads back through the same playback loop as live runs: `stepsPerTick` is the number
+// of stored ticks broadcast per timer beat and `step n` advances n stored ticks. Ticks are read from
+// arena_ticks a page at a time as the replay advances, so at most two pages are held in memory; a beat
+// that outruns the next page broadcasts what is buffered. Null when the run has no ticks.
+export async function createReplayRunner(source_id: string, speed: { ticksPerSecond?: number; stepsPerTick?: number }): Promise<{ runner: Runner; ticks: number } | null> {
+  const { count, lastIter } = await getArenaTickBounds(source_id);
+  if (!count) return null;
+  let buffer: TickPayload[] = await getArenaTicksAfter(source_id, -1, PAGE_TICKS);
+  let last: TickPayload | null = null; // last tick broadcast
+  let exhausted = buffer.length < PAGE_TICKS;
+  let loading = false;
+
+  function refill() {
+    if (loading || exhausted || buffer.length >= PAGE_TICKS) return;
+    loading = true;
+    const after = buffer.length ? buffer[buffer.length - 1].iter : last ? last.iter : -1;
+    getArenaTicksAfter(source_id, after, PAGE_TICKS)
+      .then((page) => {
+        buffer = buffer.concat(page);
+        if (page.length < PAGE_TICKS) exhausted = true;
+      })
+      .catch((err) => {
+        console.error('arena replay error', err);
+        exhausted = true;
+      })
+      .finally(() => {
+        loading = false;
+      });
+  }
+
+  const runner = createPlayback(uuidv4(), {
+    advance: (n) => {
+      const out = buffer.slice(0, n);
+      buffer = buffer.slice(out.length);
+      if (out.length) last = out[out.length - 1];
+      refill();
+      return out;
+    },
+    finished: () => exhausted && !loading && !buffer.length,
+    iter: () => (last ? last.iter : 0),
+    maxIter: lastIter,
+    snapshot: () => last ?? buffer[0],
+  }, { ticksPerSecond: speed.ticksPerSecond, stepsPerTick: speed.stepsPerTick ?? 1 });
+  return { runner, ticks: count };
+}
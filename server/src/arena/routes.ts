@@ -1,48 +1,329 @@
-import express, { Request, Response } from 'express';
-import { requireAuth } from '../auth';
-import { createRunner } from './engine';
+import express, { Response } from 'express';
+import { AuthedRequest, requireAdmin, requireAuth } from '../auth';
+import { getArenaRunById, getArenaRunsByUser, getUserByEmail } from '../db';
+import { isAlgId, isFeedbackMode, legacyAlgParams, resolveAlgParams } from '../eval/algos';
+import { mulberry32 } from '../eval/match';
+import { resolveGame, resolveRunGame } from '../games/registry';
+import { parsePolicy, Policy } from '../rl/trainer';
+import { applyCommand, ARENA_COMMANDS } from './commands';
+import { ArenaOptions, createRunner, MAX_SCHEDULED_INTERVENTIONS } from './engine';
+import { Intervention, parseIntervention } from './interventions';
+import { isRecordMode, recordRun } from './recorder';
+import { createReplayRunner } from './replay';
 import * as store from './store';
 
 const router = express.Router();
 
 router.use(requireAuth);
 
-// POST /api/arena/start { game, stepsPerTick=10, seed, lr }
-router.post('/start', async (req: Request, res: Response) => {
+// POST /api/arena/start { game, gameParams?, algA, algB, paramsA?, paramsB?, params?, feedback='expected', stepsPerTick=10, ticksPerSecond=30, maxIter?, seed, record='full', human?, policy?, interventions?, lr?, alg? }
+// maxIter defaults to, and may not exceed, the server's iteration budget (ARENA_MAX_ITER); 429 when the
+// caller or the server already has the maximum number of active runners.
+// Learners and hyperparameters are resolved exactly like POST /api/eval/start; a single `alg` from older
+// clients plays both sides. The run is recorded in arena_runs/arena_ticks for later replay.
+// `human: 'A' | 'B'` seats a person on that side (moves arrive as `move` commands); the agent on the other
+// side is its algorithm or, when `policy` is given, a policy network downloaded from RL training.
+// `interventions` are scheduled from the start (see POST /api/arena/intervene).
+router.post('/start', async (req: AuthedRequest, res: Response) => {
   try {
-    const { game, stepsPerTick = 10, seed, lr } = req.body || {};
-    if (!game || !['rps', 'mp', 'pd'].includes(String(game))) {
+    const { game, gameParams, alg = 'hedge', params, paramsA: rawA, paramsB: rawB, feedback = 'expected', stepsPerTick = 10, ticksPerSecond = 30, maxIter, seed, record = 'full', human, policy, interventions = [], lr } = req.body || {};
+    const { algA = alg, algB = alg } = req.body || {};
+    if (!isAlgId(algA) || !isAlgId(algB)) return res.status(400).json({ error: 'invalid_alg' });
+    if (!isFeedbackMode(feedback)) return res.status(400).json({ error: 'invalid_feedback' });
+    if (![params, rawA, rawB].every((p) => p == null || (typeof p === 'object' && !Array.isArray(p)))) {
+      return res.status(400).json({ error: 'invalid_params' });
+    }
+    if (maxIter != null && !(Number(maxIter) >= 1 && Number(maxIter) <= store.maxIterBudget())) {
+      return res.status(400).json({ error: 'invalid_max_iter' });
+    }
+    if (seed != null && !Number.isFinite(Number(seed))) return res.status(400).json({ error: 'invalid_seed' });
+    if (!isRecordMode(record)) return res.status(400).json({ error: 'invalid_record' });
+    if (human != null && human !== 'A' && human !== 'B') return res.status(400).json({ error: 'invalid_human' });
+    const spec = game ? await resolveGame(String(game), req.user!.uid, gameParams) : null;
+    if (!spec) {
       return res.status(400).json({ error: 'invalid_game' });
     }
-    const runner = createRunner({ game, stepsPerTick: Number(stepsPerTick) || 10, seed: seed ? Number(seed) : undefined, lr: lr ? Number(lr) : undefined });
-    store.register(runner);
-    runner.start();
-    return res.json({ run_id: runner.run_id });
+    if (!Array.isArray(interventions) || interventions.length > MAX_SCHEDULED_INTERVENTIONS) {
+      return res.status(400).json({ error: 'invalid_intervention' });
+    }
+    const scheduled: Intervention[] = [];
+    for (const raw of interventions) {
+      const iv = parseIntervention(raw, spec.actsA.length, spec.actsB.length);
+      if ('error' in iv) return res.status(400).json(iv);
+      scheduled.push(iv);
+    }
+    let agentPolicy: Policy | null = null;
+    if (policy != null) {
+      agentPolicy = human ? parsePolicy(policy, spec, human === 'A' ? spec.actsB.length : spec.actsA.length) : null;
+      if (!agentPolicy) return res.status(400).json({ error: 'invalid_policy' });
+    }
+    // held from the capacity check until the runner is registered, across the recorder's await
+    const slot = store.reserve(req.user!.uid);
+    if ('error' in slot) return res.status(429).json({ error: slot.error });
+    try {
+      const shared = { ...legacyAlgParams(lr != null ? Number(lr) : null), ...params };
+      const opts: ArenaOptions = {
+        game: spec.id,
+        algA,
+        algB,
+        paramsA: resolveAlgParams(algA, { ...shared, ...rawA }),
+        paramsB: resolveAlgParams(algB, { ...shared, ...rawB }),
+        feedback,
+        stepsPerTick: Number(stepsPerTick) || 10,
+        ticksPerSecond: Number(ticksPerSecond) || 30,
+        maxIter: maxIter != null ? Number(maxIter) : store.maxIterBudget(),
+        seed: seed != null ? Number(seed) : 1234,
+        human: human ?? undefined,
+        policyA: human === 'B' ? agentPolicy : null,
+        policyB: human === 'A' ? agentPolicy : null,
+        interventions: scheduled,
+      };
+      const runner = createRunner(spec, opts);
+      await recordRun(runner, { user_id: req.user!.uid, spec, config: opts, record });
+      store.register(runner, req.user!.uid, { game: spec.id, gameParams: spec.params ?? null });
+      runner.start();
+      return res.json({ run_id: runner.run_id });
+    } finally {
+      slot.release();
+    }
   } catch (err) {
+    console.error('arena/start error', err);
+    return res.status(500).json({ error: 'internal_error' });
+  }
+});
+
+// POST /api/arena/fork { run_id, overrides? } -> { run_id, parent, iter }
+// Branches a live run: the new run continues from the parent's current state (learner weights, RNG state,
+// jointCounts, iter) and then runs independently. `overrides` may hold algA/algB, paramsA/paramsB/params/lr,
+// feedback, seed (reseeds the RNG), maxIter, stepsPerTick, ticksPerSecond, record and interventions. Changed
+// hyperparameters retune the existing learners and a changed algorithm swaps in a fresh learner; both appear
+// as events on the fork's first tick, so branches that differ only in `lr` start from identical conditions.
+router.post('/fork', async (req: AuthedRequest, res: Response) => {
+  try {
+    const { run_id, overrides = {} } = req.body || {};
+    if (!run_id) return res.status(400).json({ error: 'run_id_required' });
+    if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) return res.status(400).json({ error: 'invalid_overrides' });
+    const source = store.getFor(String(run_id), req.user!.uid);
+    if (!source) return res.status(404).json({ error: 'not_found' });
+    if (!source.save) return res.status(409).json({ error: 'not_live' });
+    const parent = await getArenaRunById(source.run_id);
+    if (!parent) return res.status(404).json({ error: 'not_found' });
+    const spec = await resolveRunGame(parent);
+    if (!spec) return res.status(400).json({ error: 'invalid_game' });
+    const snapshot = source.save();
+
+    const { params, paramsA: rawA, paramsB: rawB, lr, feedback = parent.config.feedback ?? 'expected', seed, maxIter = parent.config.maxIter, record = parent.record, interventions = [] } = overrides;
+    if (!isFeedbackMode(feedback)) return res.status(400).json({ error: 'invalid_feedback' });
+    if (![params, rawA, rawB].every((p) => p == null || (typeof p === 'object' && !Array.isArray(p)))) {
+      return res.status(400).json({ error: 'invalid_params' });
+    }
+    if (!(Number(maxIter) > snapshot.iter && Number(maxIter) <= store.maxIterBudget())) return res.status(400).json({ error: 'invalid_max_iter' });
+    if (!isRecordMode(record)) return res.status(400).json({ error: 'invalid_record' });
+    if (seed != null && !Number.isFinite(Number(seed))) return res.status(400).json({ error: 'invalid_seed' });
+    if (!Array.isArray(interventions) || interventions.length > MAX_SCHEDULED_INTERVENTIONS) {
+      return res.status(400).json({ error: 'invalid_intervention' });
+    }
+
+    // overrides become interventions at the branch point
+    const shared = { ...legacyAlgParams(lr != null ? Number(lr) : null), ...params };
+    const raws: any[] = [];
+    const algs = { A: snapshot.match.seats.A.alg, B: snapshot.match.seats.B.alg };
+    for (const [side, raw] of [['A', rawA], ['B', rawB]] as const) {
+      const alg = overrides[`alg${side}`];
+      const sideParams = { ...shared, ...raw };
+      if (alg != null && alg !== algs[side]) {
+        raws.push({ kind: 'swap', side, alg, params: sideParams });
+        algs[side] = alg;
+      } else if (Object.keys(sideParams).length) {
+        raws.push({ kind: 'retune', side, params: sideParams });
+      }
+    }
+    const scheduled: Intervention[] = [];
+    for (const raw of [...raws, ...interventions]) {
+      const iv = parseIntervention(raw, spec.actsA.length, spec.actsB.length);
+      if ('error' in iv) return res.status(400).json(iv);
+      scheduled.push(iv);
+    }
+    // the branch inherits the parent's pending interventions
+    if (snapshot.scheduled.length + scheduled.length > MAX_SCHEDULED_INTERVENTIONS) {
+      return res.status(400).json({ error: 'invalid_intervention' });
+    }
+    const slot = store.reserve(req.user!.uid);
+    if ('error' in slot) return res.status(429).json({ error: slot.error });
+    try {
+      if (seed != null) snapshot.rng = mulberry32(Number(seed)).state();
+      const control = source.getControl();
+      const opts: ArenaOptions = {
+        ...(parent.config as ArenaOptions),
+        algA: algs.A,
+        algB: algs.B,
+        feedback,
+        stepsPerTick: Number(overrides.stepsPerTick) || control.stepsPerTick,
+        ticksPerSecond: Number(overrides.ticksPerSecond) || control.ticksPerSecond,
+        maxIter: Number(maxIter),
+        seed: seed != null ? Number(seed) : parent.config.seed,
+        interventions: scheduled,
+      };
+      const runner = createRunner(spec, opts, snapshot);
+      await recordRun(runner, {
+        user_id: req.user!.uid,
+        spec,
+        config: { ...opts, forkOf: { run_id: source.run_id, iter: snapshot.iter } },
+        record,
+      });
+      store.register(runner, req.user!.uid, { game: parent.game, gameParams: parent.gameParams });
+      runner.start();
+      return res.json({ run_id: runner.run_id, parent: source.run_id, iter: snapshot.iter });
+    } finally {
+      slot.release();
+    }
+  } catch (err) {
+    console.error('arena/fork error', err);
+    return res.status(500).json({ error: 'internal_error' });
+  }
+});
+
+// GET /api/arena/runs -> the caller's recorded runs, newest first
+router.get('/runs', async (req: AuthedRequest, res: Response) => {
+  try {
+    return res.json(await getArenaRunsByUser(req.user!.uid));
+  } catch (err) {
+    console.error('arena/runs error', err);
+    return res.status(500).json({ error: 'internal_error' });
+  }
+});
+
+// GET /api/arena/runs/active -> runs currently held in memory that the caller owns or was shared
+router.get('/runs/active', (req: AuthedRequest, res: Response) => {
+  try {
+    const uid = req.user!.uid;
+    return res.json(store.listFor(uid).map(({ runner, owner, meta, subscribers }) => ({
+      run_id: runner.run_id,
+      owned: owner === uid,
+      game: meta?.game ?? null,
+      gameParams: meta?.gameParams ?? null,
+      human: runner.human?.side ?? null,
+      viewers: subscribers,
+      control: runner.getControl(),
+    })));
+  } catch (err) {
+    console.error('arena/runs/active error', err);
+    return res.status(500).json({ error: 'internal_error' });
+  }
+});
+
+// GET /api/arena/admin/runners -> every runner in memory with its owner, subscribers and CPU use (admins only).
+// cpuPercent is the share of wall time since the runner was created spent computing its steps.
+router.get('/admin/runners', requireAdmin, (req: AuthedRequest, res: Response) => {
+  try {
+    const now = Date.now();
+    return res.json(store.listAll().map(({ runner, owner, subscribers, idleSince }) => {
+      const { createdAt, busyMs } = runner.getUsage();
+      return {
+        run_id: runner.run_id,
+        owner,
+        subscribers,
+        idleMs: idleSince != null ? now - idleSince : 0,
+        control: runner.getControl(),
+        createdAt: new Date(createdAt).toISOString(),
+        cpuMs: Math.round(busyMs),
+        cpuPercent: Math.round((busyMs / Math.max(1, now - createdAt)) * 10000) / 100,
+      };
+    }));
+  } catch (err) {
+    console.error('arena/admin/runners error', err);
+    return res.status(500).json({ error: 'internal_error' });
+  }
+});
+
+// POST /api/arena/replay { run_id, ticksPerSecond=30, stepsPerTick=1 }
+// Streams a recorded run through the /arena namespace under a new run_id; the replay accepts the same
+// playback commands as a live run
+router.post('/replay', async (req: AuthedRequest, res: Response) => {
+  try {
+    const { run_id, ticksPerSecond, stepsPerTick } = req.body || {};
+    if (!run_id) return res.status(400).json({ error: 'run_id_required' });
+    const run = await getArenaRunById(String(run_id));
+    if (!run || run.user_id !== req.user!.uid) return res.status(404).json({ error: 'not_found' });
+    const slot = store.reserve(req.user!.uid);
+    if ('error' in slot) return res.status(429).json({ error: slot.error });
+    try {
+      const replay = await createReplayRunner(run.id, {
+        ticksPerSecond: ticksPerSecond != null ? Number(ticksPerSecond) || 30 : undefined,
+        stepsPerTick: stepsPerTick != null ? Number(stepsPerTick) || 1 : undefined,
+      });
+      if (!replay) return res.status(409).json({ error: 'no_ticks' });
+      store.register(replay.runner, req.user!.uid, { game: run.game, gameParams: run.gameParams });
+      replay.runner.start();
+      return res.json({ run_id: replay.runner.run_id, source: run.id, ticks: replay.ticks });
+    } finally {
+      slot.release();
+    }
+  } catch (err) {
+    console.error('arena/replay error', err);
+    return res.status(500).json({ error: 'internal_error' });
+  }
+});
+
+// POST /api/arena/share { run_id, email } -> lets another user watch and control a run; owner only
+router.post('/share', async (req: AuthedRequest, res: Response) => {
+  try {
+    const { run_id, email } = req.body || {};
+    if (!run_id) return res.status(400).json({ error: 'run_id_required' });
+    if (!email) return res.status(400).json({ error: 'email_required' });
+    if (store.ownerOf(String(run_id)) !== req.user!.uid) return res.status(404).json({ error: 'not_found' });
+    const user = await getUserByEmail(String(email));
+    if (!user) return res.status(404).json({ error: 'user_not_found' });
+    store.share(String(run_id), user.id);
+    return res.json({ ok: true });
+  } catch (err) {
+    console.error('arena/share error', err);
     return res.status(500).json({ error: 'internal_error' });
   }
 });
 
 // POST /api/arena/stop { run_id }
-router.post('/stop', (req: Request, res: Response) => {
+// Runs of other users answer not_found unless they were shared with the caller
+router.post('/stop', (req: AuthedRequest, res: Response) => {
   try {
     const { run_id } = req.body || {};
     if (!run_id) return res.status(400).json({ error: 'run_id_required' });
-    const ok = store.stop(String(run_id));
-    if (!ok) return res.status(404).json({ error: 'not_found' });
+    if (!store.getFor(String(run_id), req.user!.uid)) return res.status(404).json({ error: 'not_found' });
+    store.stop(String(run_id));
     return res.json({ ok: true });
   } catch (err) {
     return res.status(500).json({ error: 'internal_error' });
   }
 });
 
+// POST /api/arena/{pause,resume,step,speed,move,intervene} { run_id, n?, ticksPerSecond?, stepsPerTick?, action?, kind?, side?, ... }
+// intervene: { kind: 'retune', side, params | lr } | { kind: 'swap', side, alg, params? } | { kind: 'reset', side }
+//   | { kind: 'perturb', A?, B?, noise? }, each with an optional `at` iteration
+// Same commands as the socket events; each responds with the run's playback state
+for (const cmd of ARENA_COMMANDS) {
+  router.post(`/${cmd}`, (req: AuthedRequest, res: Response) => {
+    try {
+      const { run_id } = req.body || {};
+      if (!run_id) return res.status(400).json({ error: 'run_id_required' });
+      const r = store.getFor(String(run_id), req.user!.uid);
+      if (!r) return res.status(404).json({ error: 'not_found' });
+      const result = applyCommand(r, cmd, req.body);
+      if ('error' in result) return res.status(result.error.startsWith('invalid_') ? 400 : 409).json(result);
+      return res.json(result.control);
+    } catch (err) {
+      console.error(`arena/${cmd} error`, err);
+      return res.status(500).json({ error: 'internal_error' });
+    }
+  });
+}
+
 // GET /api/arena/state/:run_id
-router.get('/state/:run_id', (req: Request, res: Response) => {
+router.get('/state/:run_id', (req: AuthedRequest, res: Response) => {
   try {
-    const run_id = req.params.run_id;
-    const r = store.get(run_id);
+    const run_id = String(req.params.run_id);
+    const r = store.getFor(run_id, req.user!.uid);
     if (!r) return res.status(404).json({ error: 'not_found' });
-    return res.json(r.getState());
+    return res.json({ ...r.getState(), control: r.getControl() });
   } catch (err) {
     return res.status(500).json({ error: 'internal_error' });
   }
@@ -0,0 +1,82 @@
+import { Namespace, Server } from 'socket.io';
+import { userFromCookieHeader } from '../auth';
+import { applyCommand, ARENA_COMMANDS } from './commands';
+import { Runner } from './engine';
+import * as store from './store';
+
+// Each watched run has a single tick/status subscription broadcasting to its room, however many sockets
+// are in it; it is dropped when the last viewer leaves
+const broadcasts = new Map<string, () => void>();
+
+function openBroadcast(nsp: Namespace, run_id: string, runner: Runner) {
+  if (broadcasts.has(run_id)) return;
+  const offTick = runner.onTick((payload) => {
+    nsp.to(run_id).emit('tick', payload);
+  });
+  const offStatus = runner.onStatus((control) => {
+    nsp.to(run_id).emit('status', control);
+  });
+  broadcasts.set(run_id, () => {
+    offTick();
+    offStatus();
+  });
+}
+
+function closeBroadcast(run_id: string) {
+  broadcasts.get(run_id)?.();
+  broadcasts.delete(run_id);
+}
+
+// /arena namespace: clients join the room of `run_id` from the handshake query, receive `tick` and
+// `status` events and may send playback commands (`pause`, `resume`, `step`, `speed`) or, in a
+// human-versus-agent run, `move` with an optional ack. The handshake must carry the auth cookie and the
+// run must belong to, or be shared with, that user. Runs nobody is subscribed to are reaped by the store.
+// A joining socket first gets `snapshot` { control, state, history, viewers, game, gameParams }: the
+// current tick plus a downsampled history, so late viewers see the whole run. The room gets
+// `viewers` { count } whenever someone joins or leaves.
+export function attachArenaNamespace(io: Server) {
+  const nsp = io.of('/arena');
+  nsp.use((socket, next) => {
+    const user = userFromCookieHeader(socket.handshake.headers.cookie);
+    if (!user) return next(new Error('unauthorized'));
+    const run_id = String(socket.handshake.query?.run_id || '');
+    if (!store.getFor(run_id, user.uid)) return next(new Error('not_found'));
+    socket.data.uid = user.uid;
+    next();
+  });
+  nsp.on('connection', (socket) => {
+    const uid: number = socket.data.uid;
+    const run_id = String(socket.handshake.query?.run_id || '');
+    const runner = store.getFor(run_id, uid);
+    const release = store.subscribe(run_id);
+    if (runner) {
+      const meta = store.metaOf(run_id);
+      socket.emit('snapshot', {
+        control: runner.getControl(),
+        state: runner.getState(),
+        history: store.historyOf(run_id),
+        viewers: store.viewers(run_id),
+        game: meta?.game ?? null,
+        gameParams: meta?.gameParams ?? null,
+      });
+      socket.join(run_id);
+      openBroadcast(nsp, run_id, runner);
+      socket.to(run_id).emit('viewers', { count: store.viewers(run_id) });
+    }
+    for (const cmd of ARENA_COMMANDS) {
+      socket.on(cmd, (args?: any, ack?: (res: any) => void) => {
+        if (typeof args === 'function') [args, ack] = [undefined, args];
+        const r = store.getFor(run_id, uid);
+        const result = r ? applyCommand(r, cmd, args) : { error: 'not_found' };
+        if (typeof ack === 'function') ack(result);
+      });
+    }
+    socket.on('disconnect', () => {
+      release();
+      const count = store.viewers(run_id);
+      if (count === 0) closeBroadcast(run_id);
+      else nsp.to(run_id).emit('viewers', { count });
+    });
+  });
+  return nsp;
+}
@@ -1,19 +1,98 @@
-import { Runner } from './engine';
+import { Runner, TickPayload } from './engine';
+import { trackHistory } from './history';
 
-const map = new Map<string, Runner>();
+// Limits protecting the shared server; read when used so values from .env apply
+function limit(name: string, fallback: number): number {
+  const v = parseInt(process.env[name] || '', 10);
+  return v > 0 ? v : fallback;
+}
+
+export const maxRunners = () => limit('ARENA_MAX_RUNNERS', 32);
+export const maxRunnersPerUser = () => limit('ARENA_MAX_RUNNERS_PER_USER', 3);
+export const maxIterBudget = () => limit('ARENA_MAX_ITER', 1000000); // steps per live run
+export const idleTimeoutMs = () => limit('ARENA_IDLE_TIMEOUT_MS', 60000);
+
+const REAP_EVERY_MS = 10000;
+
+// What the run plays, for viewers joining it
+export interface RunMeta {
+  game: string;
+  gameParams?: Record<string, number> | null;
+}
 
-export function register(run: Runner) {
-  map.set(run.run_id, run);
+// A runner with the uid that started it, the users it has been shared with and its socket subscribers.
+// `idleSince` is set while nobody is subscribed; the reaper stops the runner once that lasts idleTimeoutMs.
+interface Entry {
+  runner: Runner;
+  owner: number;
+  meta: RunMeta | null;
+  shared: Set<number>;
+  subscribers: number;
+  idleSince: number | null;
+  history: ReturnType<typeof trackHistory>;
+}
+
+const map = new Map<string, Entry>();
+
+export function register(run: Runner, owner: number, meta: RunMeta | null = null) {
+  map.set(run.run_id, { runner: run, owner, meta, shared: new Set(), subscribers: 0, idleSince: Date.now(), history: trackHistory(run) });
 }
 
 export function get(run_id: string): Runner | undefined {
-  return map.get(run_id);
+  return map.get(run_id)?.runner;
+}
+
+// The runner if `uid` owns it or it was shared with them; callers answer not_found otherwise
+export function getFor(run_id: string, uid: number): Runner | undefined {
+  const e = map.get(run_id);
+  if (!e || (e.owner !== uid && !e.shared.has(uid))) return undefined;
+  return e.runner;
+}
+
+export function ownerOf(run_id: string): number | undefined {
+  return map.get(run_id)?.owner;
+}
+
+export function metaOf(run_id: string): RunMeta | null {
+  return map.get(run_id)?.meta ?? null;
+}
+
+// Downsampled ticks since the run started (see history.ts)
+export function historyOf(run_id: string): TickPayload[] {
+  return map.get(run_id)?.history.list() ?? [];
+}
+
+export function share(run_id: string, uid: number): boolean {
+  const e = map.get(run_id);
+  if (!e) return false;
+  if (uid !== e.owner) e.shared.add(uid);
+  return true;
+}
+
+// Counts a socket watching the run; call the returned function when it disconnects
+export function subscribe(run_id: string): () => void {
+  const e = map.get(run_id);
+  if (!e) return () => {};
+  e.subscribers += 1;
+  e.idleSince = null;
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    e.subscribers -= 1;
+    if (e.subscribers === 0) e.idleSince = Date.now();
+  };
+}
+
+export function viewers(run_id: string): number {
+  return map.get(run_id)?.subscribers ?? 0;
 }
 
 export function stop(run_id: string): boolean {
-  const r = map.get(run_id);
-  if (!r) return false;
-  r.stop();
+  const e = map.get(run_id);
+  if (!e) return false;
+  e.runner.stop();
+  e.history.dispose();
   map.delete(run_id);
   return true;
 }
@@ -22,3 +101,71 @@ export function list(): string[] {
   return Array.from(map.keys());
 }
 
+// Runners `uid` owns or has been shared, with the owner of each
+export function listFor(uid: number): Array<{ runner: Runner; owner: number; meta: RunMeta | null; subscribers: number }> {
+  return Array.from(map.values())
+    .filter((e) => e.owner === uid || e.shared.has(uid))
+    .map((e) => ({ runner: e.runner, owner: e.owner, meta: e.meta, subscribers: e.subscribers }));
+}
+
+// Every runner held in memory, for the admin view
+export function listAll(): Array<{ runner: Runner; owner: number; subscribers: number; idleSince: number | null }> {
+  return Array.from(map.values()).map(({ runner, owner, subscribers, idleSince }) => ({ runner, owner, subscribers, idleSince }));
+}
+
+function isActive(e: Entry): boolean {
+  const status = e.runner.getControl().status;
+  return status === 'running' || status === 'paused';
+}
+
+// Slots held by requests that passed the capacity check and are still creating their runner
+const reserved = new Map<number, number>();
+
+// Error code when `uid` may not start another runner: finished runs do not count, reserved slots do
+export function checkCapacity(uid: number): 'too_many_runs' | 'server_busy' | null {
+  const active = Array.from(map.values()).filter(isActive);
+  const pending = Array.from(reserved.values()).reduce((a, b) => a + b, 0);
+  if (active.filter((e) => e.owner === uid).length + (reserved.get(uid) ?? 0) >= maxRunnersPerUser()) return 'too_many_runs';
+  if (active.length + pending >= maxRunners()) return 'server_busy';
+  return null;
+}
+
+// Checks capacity and holds a slot for `uid` until `release`, which the caller must run once the runner is
+// registered or the request failed; concurrent requests therefore cannot all pass the check
+export function reserve(uid: number): { release: () => void } | { error: 'too_many_runs' | 'server_busy' } {
+  const busy = checkCapacity(uid);
+  if (busy) return { error: busy };
+  reserved.set(uid, (reserved.get(uid) ?? 0) + 1);
+  let released = false;
+  return {
+    release: () => {
+      if (released) return;
+      released = true;
+      const n = (reserved.get(uid) ?? 1) - 1;
+      if (n > 0) reserved.set(uid, n);
+      else reserved.delete(uid);
+    },
+  };
+}
+
+// Stops and drops runners nobody has watched for idleTimeoutMs; returns the reaped run ids
+export function reapIdle(now = Date.now()): string[] {
+  const timeout = idleTimeoutMs();
+  const reaped: string[] = [];
+  for (const [run_id, e] of map) {
+    if (e.idleSince != null && now - e.idleSince >= timeout) {
+      stop(run_id);
+      reaped.push(run_id);
+    }
+  }
+  return reaped;
+}
+
+export function startReaper(): NodeJS.Timeout {
+  const timer = setInterval(() => {
+    const reaped = reapIdle();
+    if (reaped.length) console.log(`arena: reaped ${reaped.length} idle runner(s)`);
+  }, REAP_EVERY_MS);
+  timer.unref();
+  return timer;
+}
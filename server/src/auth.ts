@@ -29,21 +29,48 @@ export function setAuthCookie(res: Response, token: string) {
   });
 }
 
-export function requireAuth(req: AuthedRequest, res: Response, next: NextFunction) {
+// Decoded payload of a valid token, null for a missing, expired or malformed one
+export function verifyToken(token: string | undefined): JwtUserPayload | null {
+  if (!token) return null;
   try {
-    const token = (req as any).cookies?.[COOKIE_NAME];
-    if (!token) {
-      return res.status(401).json({ error: 'Unauthorized' });
-    }
     const decoded = jwt.verify(token, JWT_SECRET) as JwtUserPayload;
-    if (!decoded || !decoded.uid || !decoded.email) {
-      return res.status(401).json({ error: 'Unauthorized' });
-    }
-    req.user = decoded;
-    next();
+    if (!decoded || !decoded.uid || !decoded.email) return null;
+    return decoded;
   } catch (err) {
+    return null;
+  }
+}
+
+// Same check for a raw Cookie header, e.g. the one sent with a socket.io handshake
+export function userFromCookieHeader(header: string | undefined): JwtUserPayload | null {
+  for (const part of (header || '').split(';')) {
+    const i = part.indexOf('=');
+    if (i < 0 || part.slice(0, i).trim() !== COOKIE_NAME) continue;
+    try {
+      return verifyToken(decodeURIComponent(part.slice(i + 1).trim()));
+    } catch (err) {
+      return null;
+    }
+  }
+  return null;
+}
+
+export function requireAuth(req: AuthedRequest, res: Response, next: NextFunction) {
+  const user = verifyToken((req as any).cookies?.[COOKIE_NAME]);
+  if (!user) {
     return res.status(401).json({ error: 'Unauthorized' });
   }
+  req.user = user;
+  next();
+}
+
+// Admins are listed by email in ADMIN_EMAILS (comma separated); use after requireAuth
+export function requireAdmin(req: AuthedRequest, res: Response, next: NextFunction) {
+  const admins = (process.env.ADMIN_EMAILS || '').split(',').map((e) => e.trim().toLowerCase()).filter(Boolean);
+  if (!req.user || !admins.includes(req.user.email.toLowerCase())) {
+    return res.status(403).json({ error: 'forbidden' });
+  }
+  next();
 }
 
 // POST /api/auth/register { email, password }
@@ -1,14 +1,14 @@
 // Using CommonJS require to avoid missing type declarations for sqlite3
 // eslint-disable-next-line @typescript-eslint/no-var-requires
 const sqlite3 = require('sqlite3');
-import { User } from './types';
+import { AlgParams, FeedbackMode, GameSpec, User, UserGame } from './types';
 
 const DB_PATH = './database.sqlite';
 const Database = sqlite3.Database as any;
 const db: any = new Database(DB_PATH);
 export { db };
 
-export function ensureMigrations(): Promise<void> {
+export async function ensureMigrations(): Promise<void> {
   const sql = `
     PRAGMA foreign_keys = ON;
     CREATE TABLE IF NOT EXISTS users (
@@ -34,7 +34,15 @@ export function ensureMigrations(): Promise<void> {
       episodes INTEGER NOT NULL,
       stepsPerEp INTEGER NOT NULL,
       lr REAL,
+      gameParams TEXT,
+      paramsA TEXT,
+      paramsB TEXT,
+      feedback TEXT,
+      spec TEXT,
+      status TEXT,
+      error TEXT,
       created_at TEXT,
+      ended_at TEXT,
       FOREIGN KEY(user_id) REFERENCES users(id) ON DELETE CASCADE
     );
     CREATE TABLE IF NOT EXISTS eval_metrics (
@@ -46,6 +54,16 @@ export function ensureMigrations(): Promise<void> {
       avgRewardA REAL,
       coopRate REAL,
       l2Dist REAL,
+      exploitA REAL,
+      exploitB REAL,
+      nashConv REAL,
+      avgExploitA REAL,
+      avgExploitB REAL,
+      avgNashConv REAL,
+      pA TEXT,
+      pB TEXT,
+      avgPA TEXT,
+      avgPB TEXT,
       created_at TEXT,
       FOREIGN KEY(run_id) REFERENCES eval_runs(id) ON DELETE CASCADE
     );
@@ -60,17 +78,84 @@ export function ensureMigrations(): Promise<void> {
       coopRate_std REAL,
       l2Dist_mean REAL,
       l2Dist_std REAL,
+      nashConv_mean REAL,
+      nashConv_std REAL,
+      avgNashConv_mean REAL,
+      avgNashConv_std REAL,
       created_at TEXT,
       FOREIGN KEY(run_id) REFERENCES eval_runs(id) ON DELETE CASCADE
     );
+    CREATE TABLE IF NOT EXISTS games (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      name TEXT NOT NULL,
+      actsA TEXT NOT NULL,
+      actsB TEXT NOT NULL,
+      A TEXT NOT NULL,
+      B TEXT NOT NULL,
+      zeroSum INTEGER NOT NULL DEFAULT 0,
+      created_at TEXT,
+      updated_at TEXT,
+      FOREIGN KEY(user_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+    CREATE TABLE IF NOT EXISTS arena_runs (
+      id TEXT PRIMARY KEY,
+      user_id INTEGER NOT NULL,
+      game TEXT NOT NULL,
+      gameParams TEXT,
+      spec TEXT,
+      config TEXT NOT NULL,
+      record TEXT NOT NULL,
+      status TEXT NOT NULL,
+      iter INTEGER NOT NULL DEFAULT 0,
+      ticks INTEGER NOT NULL DEFAULT 0,
+      created_at TEXT,
+      ended_at TEXT,
+      FOREIGN KEY(user_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+    CREATE TABLE IF NOT EXISTS arena_ticks (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      run_id TEXT NOT NULL,
+      iter INTEGER NOT NULL,
+      payload TEXT NOT NULL,
+      FOREIGN KEY(run_id) REFERENCES arena_runs(id) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_arena_ticks_run ON arena_ticks(run_id, iter);
     
   `;
-  return new Promise((resolve, reject) => {
+  await new Promise<void>((resolve, reject) => {
     db.exec(sql, (err: Error) => {
       if (err) return reject(err);
       resolve();
     });
   });
+  // columns added after the initial schema; CREATE TABLE IF NOT EXISTS leaves old databases untouched
+  for (const col of ['gameParams', 'paramsA', 'paramsB', 'feedback', 'status', 'error', 'ended_at', 'spec']) {
+    await addColumnIfMissing('eval_runs', col, 'TEXT');
+  }
+  await addColumnIfMissing('arena_runs', 'spec', 'TEXT');
+  for (const col of ['exploitA', 'exploitB', 'nashConv', 'avgExploitA', 'avgExploitB', 'avgNashConv']) {
+    await addColumnIfMissing('eval_metrics', col, 'REAL');
+  }
+  for (const col of ['pA', 'pB', 'avgPA', 'avgPB']) {
+    await addColumnIfMissing('eval_metrics', col, 'TEXT');
+  }
+  for (const col of ['nashConv_mean', 'nashConv_std', 'avgNashConv_mean', 'avgNashConv_std']) {
+    await addColumnIfMissing('eval_summaries', col, 'REAL');
+  }
+}
+
+function addColumnIfMissing(table: string, column: string, type: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    db.all(`PRAGMA table_info(${table})`, (err: Error, rows: any[]) => {
+      if (err) return reject(err);
+      if ((rows || []).some((r) => r.name === column)) return resolve();
+      db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`, (err2: Error) => {
+        if (err2) return reject(err2);
+        resolve();
+      });
+    });
+  });
 }
 
 export function getUserByEmail(email: string): Promise<User | null> {
@@ -111,13 +196,20 @@ export function createEvalRun(params: {
   episodes: number;
   stepsPerEp: number;
   lr?: number | null;
+  gameParams?: Record<string, number> | null;
+  paramsA?: AlgParams | null;
+  paramsB?: AlgParams | null;
+  feedback?: FeedbackMode | null;
+  spec?: GameSpec | null; // the resolved game, so later edits to a custom game leave the run unchanged
 }): Promise<number> {
   return new Promise((resolve, reject) => {
     const createdAt = new Date().toISOString();
-    const sql = `INSERT INTO eval_runs(user_id, game, algA, algB, seeds, episodes, stepsPerEp, lr, created_at)
-                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+    const sql = `INSERT INTO eval_runs(user_id, game, algA, algB, seeds, episodes, stepsPerEp, lr, gameParams, paramsA, paramsB, feedback, spec, status, created_at)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'queued', ?)`;
     db.run(sql,
-      [params.user_id, params.game, params.algA, params.algB, JSON.stringify(params.seeds), params.episodes, params.stepsPerEp, params.lr ?? null, createdAt],
+      [params.user_id, params.game, params.algA, params.algB, JSON.stringify(params.seeds), params.episodes, params.stepsPerEp, params.lr ?? null, params.gameParams ? JSON.stringify(params.gameParams) : null,
+        params.paramsA ? JSON.stringify(params.paramsA) : null, params.paramsB ? JSON.stringify(params.paramsB) : null,
+        params.feedback ?? null, params.spec ? JSON.stringify(params.spec) : null, createdAt],
       function (this: any, err: Error) {
         if (err) return reject(err);
         resolve(this.lastID as number);
@@ -134,12 +226,27 @@ export function insertEvalMetric(params: {
   avgRewardA: number;
   coopRate: number | null;
   l2Dist: number | null;
+  exploitA: number;
+  exploitB: number;
+  nashConv: number;
+  avgExploitA: number;
+  avgExploitB: number;
+  avgNashConv: number;
+  pA: number[]; // final (last-iterate) strategies
+  pB: number[];
+  avgPA: number[]; // time-averaged strategies over the episode
+  avgPB: number[];
 }): Promise<void> {
   return new Promise((resolve, reject) => {
     const createdAt = new Date().toISOString();
-    const sql = `INSERT INTO eval_metrics(run_id, seed, ep, winA, avgRewardA, coopRate, l2Dist, created_at)
-                 VALUES (?, ?, ?, ?, ?, ?, ?, ?)`;
-    db.run(sql, [params.run_id, params.seed, params.ep, params.winA, params.avgRewardA, params.coopRate, params.l2Dist, createdAt], (err: Error) => {
+    const sql = `INSERT INTO eval_metrics(run_id, seed, ep, winA, avgRewardA, coopRate, l2Dist, exploitA, exploitB, nashConv, avgExploitA, avgExploitB, avgNashConv, pA, pB, avgPA, avgPB, created_at)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+    db.run(sql, [
+      params.run_id, params.seed, params.ep, params.winA, params.avgRewardA, params.coopRate, params.l2Dist,
+      params.exploitA, params.exploitB, params.nashConv, params.avgExploitA, params.avgExploitB, params.avgNashConv,
+      JSON.stringify(params.pA), JSON.stringify(params.pB), JSON.stringify(params.avgPA), JSON.stringify(params.avgPB),
+      createdAt
+    ], (err: Error) => {
       if (err) return reject(err);
       resolve();
     });
@@ -156,17 +263,24 @@ export function insertEvalSummary(params: {
   coopRate_std: number | null;
   l2Dist_mean: number | null;
   l2Dist_std: number | null;
+  nashConv_mean: number | null;
+  nashConv_std: number | null;
+  avgNashConv_mean: number | null;
+  avgNashConv_std: number | null;
 }): Promise<void> {
   return new Promise((resolve, reject) => {
     const createdAt = new Date().toISOString();
-    const sql = `INSERT INTO eval_summaries(run_id, winA_mean, winA_std, avgRewardA_mean, avgRewardA_std, coopRate_mean, coopRate_std, l2Dist_mean, l2Dist_std, created_at)
-                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+    const sql = `INSERT INTO eval_summaries(run_id, winA_mean, winA_std, avgRewardA_mean, avgRewardA_std, coopRate_mean, coopRate_std, l2Dist_mean, l2Dist_std,
+                 nashConv_mean, nashConv_std, avgNashConv_mean, avgNashConv_std, created_at)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
     db.run(sql, [
       params.run_id,
       params.winA_mean, params.winA_std,
       params.avgRewardA_mean, params.avgRewardA_std,
       params.coopRate_mean, params.coopRate_std,
       params.l2Dist_mean, params.l2Dist_std,
+      params.nashConv_mean, params.nashConv_std,
+      params.avgNashConv_mean, params.avgNashConv_std,
       createdAt
     ], (err: Error) => {
       if (err) return reject(err);
@@ -185,6 +299,28 @@ export function getEvalRunById(run_id: number): Promise<any | null> {
   });
 }
 
+// Job status of an eval run; finishing statuses also stamp ended_at. Rows from before jobs have no status
+// and always ran to completion.
+export function setEvalRunStatus(run_id: number, status: string, error: string | null = null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const ended = status === 'queued' || status === 'running' ? null : new Date().toISOString();
+    db.run('UPDATE eval_runs SET status = ?, error = ?, ended_at = ? WHERE id = ?', [status, error, ended, run_id], (err: Error) => {
+      if (err) return reject(err);
+      resolve();
+    });
+  });
+}
+
+// Jobs queued or running when the server stops are lost with its memory
+export function closeInterruptedEvalRuns(): Promise<void> {
+  return new Promise((resolve, reject) => {
+    db.run("UPDATE eval_runs SET status = 'failed', error = 'interrupted', ended_at = ? WHERE status IN ('queued', 'running')", [new Date().toISOString()], (err: Error) => {
+      if (err) return reject(err);
+      resolve();
+    });
+  });
+}
+
 export function getEvalSummaryByRunId(run_id: number): Promise<any | null> {
   return new Promise((resolve, reject) => {
     db.get('SELECT * FROM eval_summaries WHERE run_id = ?', [run_id], (err: Error, row: any) => {
@@ -199,13 +335,99 @@ export function getEvalMetricsByRunId(run_id: number): Promise<any[]> {
   return new Promise((resolve, reject) => {
     db.all('SELECT * FROM eval_metrics WHERE run_id = ? ORDER BY seed ASC, ep ASC', [run_id], (err: Error, rows: any[]) => {
       if (err) return reject(err);
-      resolve(rows || []);
+      // strategy columns are JSON arrays (null on rows written before they existed)
+      const parse = (x: string | null) => (x ? JSON.parse(x) : null);
+      resolve((rows || []).map((r) => ({ ...r, pA: parse(r.pA), pB: parse(r.pB), avgPA: parse(r.avgPA), avgPB: parse(r.avgPB) })));
     });
   });
 }
 
 // (Scenarios & Lessons functions removed in rollback)
 
+// Game registry helpers (matrices and labels are stored as JSON text)
+export type GameInput = {
+  name: string;
+  actsA: string[];
+  actsB: string[];
+  A: number[][];
+  B: number[][];
+  zeroSum: boolean;
+};
+
+function rowToGame(row: any): UserGame {
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    name: row.name,
+    actsA: JSON.parse(row.actsA),
+    actsB: JSON.parse(row.actsB),
+    A: JSON.parse(row.A),
+    B: JSON.parse(row.B),
+    zeroSum: !!row.zeroSum,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+export function getGamesByUser(userId: number): Promise<UserGame[]> {
+  return new Promise((resolve, reject) => {
+    db.all('SELECT * FROM games WHERE user_id = ? ORDER BY id ASC', [userId], (err: Error, rows: any[]) => {
+      if (err) return reject(err);
+      resolve((rows || []).map(rowToGame));
+    });
+  });
+}
+
+export function getGameByIdForUser(userId: number, gameId: number): Promise<UserGame | null> {
+  return new Promise((resolve, reject) => {
+    db.get('SELECT * FROM games WHERE id = ? AND user_id = ?', [gameId, userId], (err: Error, row: any) => {
+      if (err) return reject(err);
+      if (!row) return resolve(null);
+      resolve(rowToGame(row));
+    });
+  });
+}
+
+export function createGameForUser(userId: number, game: GameInput): Promise<UserGame> {
+  return new Promise((resolve, reject) => {
+    const createdAt = new Date().toISOString();
+    const sql = `INSERT INTO games(user_id, name, actsA, actsB, A, B, zeroSum, created_at, updated_at)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+    db.run(sql,
+      [userId, game.name, JSON.stringify(game.actsA), JSON.stringify(game.actsB), JSON.stringify(game.A), JSON.stringify(game.B), game.zeroSum ? 1 : 0, createdAt, createdAt],
+      function (this: any, err: Error) {
+        if (err) return reject(err);
+        const id = this.lastID as number;
+        resolve({ id, user_id: userId, ...game, created_at: createdAt, updated_at: createdAt });
+      }
+    );
+  });
+}
+
+export function updateGameForUser(userId: number, gameId: number, game: GameInput): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    const updatedAt = new Date().toISOString();
+    const sql = `UPDATE games SET name = ?, actsA = ?, actsB = ?, A = ?, B = ?, zeroSum = ?, updated_at = ?
+                 WHERE id = ? AND user_id = ?`;
+    db.run(sql,
+      [game.name, JSON.stringify(game.actsA), JSON.stringify(game.actsB), JSON.stringify(game.A), JSON.stringify(game.B), game.zeroSum ? 1 : 0, updatedAt, gameId, userId],
+      function (this: any, err: Error) {
+        if (err) return reject(err);
+        resolve((this.changes as number) > 0);
+      }
+    );
+  });
+}
+
+export function deleteGameForUser(userId: number, gameId: number): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    db.run('DELETE FROM games WHERE id = ? AND user_id = ?', [gameId, userId], function (this: any, err: Error) {
+      if (err) return reject(err);
+      resolve((this.changes as number) > 0);
+    });
+  });
+}
+
 export function getNotesByUser(userId: number): Promise<Array<{ id: number; user_id: number; content: string; created_at: string }>> {
   return new Promise((resolve, reject) => {
     const sql = 'SELECT id, user_id, content, created_at FROM notes WHERE user_id = ? ORDER BY created_at DESC';
@@ -237,3 +459,115 @@ export function deleteNoteByIdForUser(userId: number, noteId: number): Promise<b
     });
   });
 }
+
+// Arena recordings: one arena_runs row per live run (id = runner run_id) and its recorded tick payloads as JSON
+export type ArenaRunRow = {
+  id: string;
+  user_id: number;
+  game: string;
+  gameParams: Record<string, number> | null;
+  spec: GameSpec | null; // null on runs recorded before the game was stored with them
+  config: Record<string, any>;
+  record: string;
+  status: string; // 'live' while the runner exists, then 'done' or 'stopped'
+  iter: number;
+  ticks: number;
+  created_at: string;
+  ended_at: string | null;
+};
+
+function parseArenaRun(row: any): ArenaRunRow {
+  return { ...row, gameParams: row.gameParams ? JSON.parse(row.gameParams) : null, spec: row.spec ? JSON.parse(row.spec) : null, config: JSON.parse(row.config) };
+}
+
+export function createArenaRun(params: {
+  id: string;
+  user_id: number;
+  game: string;
+  gameParams?: Record<string, number> | null;
+  spec?: GameSpec | null;
+  config: Record<string, any>;
+  record: string;
+}): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const sql = `INSERT INTO arena_runs(id, user_id, game, gameParams, spec, config, record, status, iter, ticks, created_at)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, 'live', 0, 0, ?)`;
+    db.run(sql,
+      [params.id, params.user_id, params.game, params.gameParams ? JSON.stringify(params.gameParams) : null, params.spec ? JSON.stringify(params.spec) : null,
+        JSON.stringify(params.config), params.record, new Date().toISOString()],
+      (err: Error) => {
+        if (err) return reject(err);
+        resolve();
+      });
+  });
+}
+
+// Appends recorded ticks in one statement; callers keep batches small enough for SQLite's variable limit
+export function insertArenaTicks(run_id: string, ticks: Array<{ iter: number; payload: unknown }>): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (!ticks.length) return resolve();
+    const sql = `INSERT INTO arena_ticks(run_id, iter, payload) VALUES ${ticks.map(() => '(?, ?, ?)').join(', ')}`;
+    db.run(sql, ticks.flatMap((t) => [run_id, t.iter, JSON.stringify(t.payload)]), (err: Error) => {
+      if (err) return reject(err);
+      resolve();
+    });
+  });
+}
+
+export function finishArenaRun(run_id: string, status: string, iter: number, ticks: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const sql = 'UPDATE arena_runs SET status = ?, iter = ?, ticks = ?, ended_at = ? WHERE id = ?';
+    db.run(sql, [status, iter, ticks, new Date().toISOString(), run_id], (err: Error) => {
+      if (err) return reject(err);
+      resolve();
+    });
+  });
+}
+
+// Runs still marked live when the server starts lost their runner in a restart
+export function closeInterruptedArenaRuns(): Promise<void> {
+  return new Promise((resolve, reject) => {
+    db.run("UPDATE arena_runs SET status = 'stopped', ended_at = ? WHERE status = 'live'", [new Date().toISOString()], (err: Error) => {
+      if (err) return reject(err);
+      resolve();
+    });
+  });
+}
+
+export function getArenaRunsByUser(userId: number): Promise<ArenaRunRow[]> {
+  return new Promise((resolve, reject) => {
+    db.all('SELECT * FROM arena_runs WHERE user_id = ? ORDER BY created_at DESC', [userId], (err: Error, rows: any[]) => {
+      if (err) return reject(err);
+      resolve((rows || []).map(parseArenaRun));
+    });
+  });
+}
+
+export function getArenaRunById(run_id: string): Promise<ArenaRunRow | null> {
+  return new Promise((resolve, reject) => {
+    db.get('SELECT * FROM arena_runs WHERE id = ?', [run_id], (err: Error, row: any) => {
+      if (err) return reject(err);
+      resolve(row ? parseArenaRun(row) : null);
+    });
+  });
+}
+
+// Number of recorded ticks and the last recorded iteration of a run
+export function getArenaTickBounds(run_id: string): Promise<{ count: number; lastIter: number }> {
+  return new Promise((resolve, reject) => {
+    db.get('SELECT COUNT(*) AS count, MAX(iter) AS lastIter FROM arena_ticks WHERE run_id = ?', [run_id], (err: Error, row: any) => {
+      if (err) return reject(err);
+      resolve({ count: Number(row?.count ?? 0), lastIter: Number(row?.lastIter ?? 0) });
+    });
+  });
+}
+
+// One page of a run's recorded ticks: the first `limit` ticks after iteration `afterIter`
+export function getArenaTicksAfter(run_id: string, afterIter: number, limit: number): Promise<any[]> {
+  return new Promise((resolve, reject) => {
+    db.all('SELECT payload FROM arena_ticks WHERE run_id = ? AND iter > ? ORDER BY iter ASC, id ASC LIMIT ?', [run_id, afterIter, limit], (err: Error, rows: any[]) => {
+      if (err) return reject(err);
+      resolve((rows || []).map((r) => JSON.parse(r.payload)));
+    });
+  });
+}
@@ -0,0 +1,145 @@
+import { GameSpec } from '../types';
+
+type Vec = number[];
+
+export type DynamicsId = 'replicator' | 'bnn' | 'logit' | 'br';
+
+export const DYNAMICS: DynamicsId[] = ['replicator', 'bnn', 'logit', 'br'];
+
+export interface FlowOptions {
+  eta?: number; // logit temperature
+}
+
+export interface TrajectoryPoint {
+  t: number;
+  x: Vec; // A's mixed strategy (population shares)
+  y: Vec; // B's mixed strategy
+}
+
+function dot(p: Vec, u: Vec): number {
+  return p.reduce((acc, pi, i) => acc + pi * u[i], 0);
+}
+
+function softmax(u: Vec, tau: number): Vec {
+  const t = Math.max(1e-4, tau);
+  const m = Math.max(...u);
+  const exps = u.map((x) => Math.exp((x - m) / t));
+  const s = exps.reduce((a, b) => a + b, 0);
+  return exps.map((x) => x / (s || 1));
+}
+
+// Uniform mix over the maximizers of u
+function bestResponse(u: Vec): Vec {
+  const m = Math.max(...u);
+  const best: Vec = u.map((x) => (x >= m - 1e-12 ? 1 : 0));
+  const k = best.reduce((a, b) => a + b, 0);
+  return best.map((b) => b / k);
+}
+
+// Time derivative of one population's shares given its payoff vector u
+function populationFlow(kind: DynamicsId, p: Vec, u: Vec, opts: FlowOptions): Vec {
+  const avg = dot(p, u);
+  switch (kind) {
+    case 'replicator':
+      return p.map((pi, i) => pi * (u[i] - avg));
+    case 'bnn': {
+      const excess = u.map((ui) => Math.max(0, ui - avg));
+      const total = excess.reduce((a, b) => a + b, 0);
+      return p.map((pi, i) => excess[i] - pi * total);
+    }
+    case 'logit': {
+      const target = softmax(u, opts.eta ?? 0.1);
+      return p.map((pi, i) => target[i] - pi);
+    }
+    case 'br': {
+      const target = bestResponse(u);
+      return p.map((pi, i) => target[i] - pi);
+    }
+  }
+}
+
+// Two-population vector field: A's payoffs are A y, B's are B^T x
+export function vectorField(kind: DynamicsId, spec: GameSpec, x: Vec, y: Vec, opts: FlowOptions = {}): { dx: Vec; dy: Vec } {
+  const uA = spec.A.map((row) => dot(y, row));
+  const uB = y.map((_, j) => spec.B.reduce((acc, row, i) => acc + x[i] * row[j], 0));
+  return { dx: populationFlow(kind, x, uA, opts), dy: populationFlow(kind, y, uB, opts) };
+}
+
+// Clip round-off below zero and renormalize so the state stays on the simplex
+function project(p: Vec): Vec {
+  const q = p.map((v) => Math.max(0, v));
+  const s = q.reduce((a, b) => a + b, 0);
+  return s > 0 ? q.map((v) => v / s) : p.map(() => 1 / p.length);
+}
+
+const axpy = (p: Vec, d: Vec, h: number) => p.map((v, i) => v + h * d[i]);
+
+// Fixed-step RK4 from (x0, y0); records every `sampleEvery` steps plus the final state
+export function integrate(kind: DynamicsId, spec: GameSpec, params: {
+  x0: Vec;
+  y0: Vec;
+  dt: number;
+  steps: number;
+  sampleEvery?: number;
+} & FlowOptions): TrajectoryPoint[] {
+  const { dt, steps } = params;
+  const every = Math.max(1, params.sampleEvery ?? 1);
+  const f = (x: Vec, y: Vec) => vectorField(kind, spec, x, y, params);
+  let x = project(params.x0);
+  let y = project(params.y0);
+  const out: TrajectoryPoint[] = [{ t: 0, x: [...x], y: [...y] }];
+  for (let s = 1; s <= steps; s++) {
+    const k1 = f(x, y);
+    const k2 = f(axpy(x, k1.dx, dt / 2), axpy(y, k1.dy, dt / 2));
+    const k3 = f(axpy(x, k2.dx, dt / 2), axpy(y, k2.dy, dt / 2));
+    const k4 = f(axpy(x, k3.dx, dt), axpy(y, k3.dy, dt));
+    x = project(x.map((v, i) => v + (dt / 6) * (k1.dx[i] + 2 * k2.dx[i] + 2 * k3.dx[i] + k4.dx[i])));
+    y = project(y.map((v, j) => v + (dt / 6) * (k1.dy[j] + 2 * k2.dy[j] + 2 * k3.dy[j] + k4.dy[j])));
+    if (s % every === 0 || s === steps) out.push({ t: s * dt, x: [...x], y: [...y] });
+  }
+  return out;
+}
+
+export interface FieldSample {
+  x: Vec;
+  y: Vec;
+  dx: Vec;
+  dy: Vec;
+}
+
+function isSymmetric(spec: GameSpec): boolean {
+  return spec.A.every((row, i) => row.every((a, j) => Math.abs(a - spec.B[j][i]) < 1e-12));
+}
+
+// Grid of vector-field samples for plotting: the unit square (x[0], y[0]) for 2x2 games and the
+// barycentric triangle for 3-action symmetric games (B = A^T), sampled on the diagonal y = x where both
+// populations move alike. Asymmetric 3x3 games have no single triangle field and get null.
+export function sampleField(kind: DynamicsId, spec: GameSpec, resolution: number, opts: FlowOptions = {}): { shape: 'square' | 'simplex'; samples: FieldSample[] } | null {
+  const nA = spec.actsA.length;
+  const nB = spec.actsB.length;
+  const samples: FieldSample[] = [];
+  if (nA === 2 && nB === 2) {
+    for (let i = 0; i < resolution; i++) {
+      for (let j = 0; j < resolution; j++) {
+        const p = (i + 0.5) / resolution;
+        const q = (j + 0.5) / resolution;
+        const x = [p, 1 - p];
+        const y = [q, 1 - q];
+        samples.push({ x, y, ...vectorField(kind, spec, x, y, opts) });
+      }
+    }
+    return { shape: 'square', samples };
+  }
+  if (nA === 3 && nB === 3 && isSymmetric(spec)) {
+    for (let i = 0; i <= resolution; i++) {
+      for (let j = 0; i + j <= resolution; j++) {
+        const k = resolution - i - j;
+        if (i === resolution || j === resolution || k === resolution) continue; // vertices are rest points
+        const x = [i / resolution, j / resolution, k / resolution];
+        samples.push({ x, y: x, ...vectorField(kind, spec, x, x, opts) });
+      }
+    }
+    return { shape: 'simplex', samples };
+  }
+  return null;
+}
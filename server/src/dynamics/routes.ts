@@ -0,0 +1,73 @@
+import express, { Response } from 'express';
+import { AuthedRequest, requireAuth } from '../auth';
+import { resolveGame } from '../games/registry';
+import { DYNAMICS, DynamicsId, integrate, sampleField } from './flows';
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+const MAX_STEPS = 100000;
+const MAX_POINTS = 2000;
+
+function parseStart(p: any, n: number): number[] | null {
+  if (p == null) return Array(n).fill(1 / n);
+  if (!Array.isArray(p) || p.length !== n) return null;
+  if (!p.every((v: any) => typeof v === 'number' && Number.isFinite(v) && v >= 0)) return null;
+  return p.reduce((a: number, b: number) => a + b, 0) > 0 ? p : null;
+}
+
+// POST /api/dynamics { game, gameParams?, dynamics, x0?, y0?, dt=0.01, steps=1000, eta=0.1 }
+router.post('/', async (req: AuthedRequest, res: Response) => {
+  try {
+    const { game, gameParams, dynamics, x0, y0, dt = 0.01, steps = 1000, eta = 0.1 } = req.body || {};
+    if (!DYNAMICS.includes(dynamics)) return res.status(400).json({ error: 'invalid_dynamics' });
+    const spec = game ? await resolveGame(String(game), req.user!.uid, gameParams) : null;
+    if (!spec) return res.status(400).json({ error: 'invalid_game' });
+    const start = { x0: parseStart(x0, spec.actsA.length), y0: parseStart(y0, spec.actsB.length) };
+    if (!start.x0 || !start.y0) return res.status(400).json({ error: 'invalid_start' });
+    const h = Number(dt);
+    const n = Math.floor(Number(steps));
+    if (!(h > 0 && h <= 1) || !(n >= 1 && n <= MAX_STEPS) || !(Number(eta) > 0)) {
+      return res.status(400).json({ error: 'invalid_params' });
+    }
+    const trajectory = integrate(dynamics as DynamicsId, spec, {
+      x0: start.x0,
+      y0: start.y0,
+      dt: h,
+      steps: n,
+      sampleEvery: Math.ceil(n / MAX_POINTS),
+      eta: Number(eta),
+    });
+    return res.json({
+      game: { id: spec.id, name: spec.name, actsA: spec.actsA, actsB: spec.actsB, params: spec.params },
+      dynamics,
+      dt: h,
+      steps: n,
+      trajectory,
+    });
+  } catch (err) {
+    console.error('dynamics error', err);
+    return res.status(500).json({ error: 'internal_error' });
+  }
+});
+
+// POST /api/dynamics/field { game, gameParams?, dynamics, resolution=10, eta=0.1 } -> arrows for phase plots
+router.post('/field', async (req: AuthedRequest, res: Response) => {
+  try {
+    const { game, gameParams, dynamics, resolution = 10, eta = 0.1 } = req.body || {};
+    if (!DYNAMICS.includes(dynamics)) return res.status(400).json({ error: 'invalid_dynamics' });
+    const spec = game ? await resolveGame(String(game), req.user!.uid, gameParams) : null;
+    if (!spec) return res.status(400).json({ error: 'invalid_game' });
+    const r = Math.floor(Number(resolution));
+    if (!(r >= 2 && r <= 40) || !(Number(eta) > 0)) return res.status(400).json({ error: 'invalid_params' });
+    const field = sampleField(dynamics as DynamicsId, spec, r, { eta: Number(eta) });
+    if (!field) return res.status(400).json({ error: 'unsupported_shape' });
+    return res.json({ dynamics, ...field });
+  } catch (err) {
+    console.error('dynamics field error', err);
+    return res.status(500).json({ error: 'internal_error' });
+  }
+});
+
+export { router as dynamicsRouter };
@@ -1,4 +1,66 @@
-export type Stepper = (opp: number[], payoff: number[][]) => number[];
+import { AlgId, AlgParams, FeedbackMode } from '../types';
+import { parseSchedule, scheduleAt } from './schedules';
+
+// Outcome of the previous round as seen by this player; absent before the first round
+export interface Realized {
+  action: number; // own sampled action
+  oppAction: number;
+  reward: number; // own realized payoff
+}
+
+// `payoff` is the player's own payoff matrix (rows = own actions, columns = opponent actions).
+// Full-information learners use the opponent mix `opp`; bandit learners only use `realized`.
+// Extragradient learners also expose `extrapolate`, a look-ahead step that leaves their state untouched.
+// `realizedOnly` marks bandit learners, which read the payoff matrix only to normalize rewards.
+// `retune` (registry learners only) changes hyperparameters in place, keeping the learner's state.
+// `save`/`load` copy that state (weights, counts, step counters) out as plain JSON and back in.
+export type Stepper = ((opp: number[], payoff: number[][], realized?: Realized) => number[]) & {
+  extrapolate?: (opp: number[], payoff: number[][]) => number[];
+  realizedOnly?: boolean;
+  retune?: (params: Record<string, any>) => AlgParams;
+  save?: () => LearnerState;
+  load?: (state: LearnerState) => void;
+};
+
+export type LearnerState = Record<string, unknown>;
+
+// Learners keep everything they update in one plain object, so a run can be snapshotted and forked
+export function withState<S extends object>(st: S, step: Stepper): Stepper {
+  step.save = () => JSON.parse(JSON.stringify(st));
+  step.load = (saved) => {
+    Object.assign(st, JSON.parse(JSON.stringify(saved)));
+  };
+  return step;
+}
+
+export interface AlgParamDef {
+  key: string;
+  label: string;
+  default: number;
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  step?: number; // input granularity hint for the client form
+  schedulable?: boolean; // accepts a schedule object instead of a constant
+}
+
+// Value of a hyperparameter at step t; constant unless the caller passed a schedule
+type RateAt = (key: string, t: number) => number;
+
+// A learner plugin: `make` builds a fresh stepper from fully resolved hyperparameters
+// (schedulable ones appear in `hp` with their initial value; read them through `at`)
+export interface AlgorithmDef {
+  id: AlgId;
+  name: string;
+  description: string;
+  feedback: 'full' | 'bandit'; // whether it reads the opponent mix or only its realized payoff
+  params: AlgParamDef[];
+  make: (acts: number, hp: Record<string, number>, at: RateAt) => Stepper;
+}
+
+const LR: AlgParamDef = { key: 'lr', label: 'Learning rate', default: 0.5, min: 0, max: 10, step: 0.05 };
+const SCHEDULED_LR: AlgParamDef = { ...LR, schedulable: true };
+const TAU: AlgParamDef = { key: 'tau', label: 'Boltzmann temperature', default: 0.1, min: 1e-4, max: 10, step: 0.01 };
 
 function normalize(v: number[]): number[] {
   const s = v.reduce((a, b) => a + b, 0);
@@ -14,52 +76,465 @@ function softmax(u: number[], tau: number): number[] {
   return exps.map((x) => x / (s || 1));
 }
 
-export function makeStepper(alg: 'hedge' | 'regret' | 'fp', acts: number, lr?: number): Stepper {
-  const eta = lr ?? 0.5;
-  let w = Array(acts).fill(1) as number[]; // weights for hedge
-  let p = normalize([...w]);
-  let R = Array(acts).fill(0) as number[]; // cumulative regrets
-  let oppHist: number[] | null = null; // opponent empirical frequency
-  let t = 0;
+// Map a realized payoff to [0,1] using the range of the player's own payoff matrix
+function unitReward(r: number, M: number[][]): number {
+  const flat = M.flat();
+  const lo = Math.min(...flat);
+  const hi = Math.max(...flat);
+  return hi - lo > 1e-12 ? (r - lo) / (hi - lo) : 0.5;
+}
+
+function payoffVector(M: number[][], opp: number[]): number[] {
+  return M.map((row) => row.reduce((acc, mij, j) => acc + mij * opp[j], 0));
+}
+
+// Payoff gradient scaled by the matrix range so that `lr` means the same thing in every game
+function scaledGradient(M: number[][], opp: number[]): number[] {
+  const s = Math.max(1, ...M.flat().map((x) => Math.abs(x)));
+  return payoffVector(M, opp).map((x) => x / s);
+}
 
-  const stepHedge: Stepper = (opp, M) => {
+// Euclidean projection onto the probability simplex
+function projectSimplex(v: number[]): number[] {
+  const u = [...v].sort((a, b) => b - a);
+  let css = 0;
+  let theta = 0;
+  for (let i = 0; i < u.length; i++) {
+    css += u[i];
+    const th = (css - 1) / (i + 1);
+    if (u[i] - th > 0) theta = th;
+  }
+  return v.map((x) => Math.max(0, x - theta));
+}
+
+function argmaxes(xs: number[]): number[] {
+  const m = Math.max(...xs);
+  return xs.map((x, i) => (x >= m - 1e-12 ? i : -1)).filter((i) => i >= 0);
+}
+
+function uniform(acts: number): number[] {
+  return Array(acts).fill(1 / acts);
+}
+
+function makeHedge(acts: number, _hp: Record<string, number>, at: RateAt): Stepper {
+  const st = { w: Array(acts).fill(1) as number[], t: 0 };
+  return withState(st, (opp, M) => {
+    st.t += 1;
+    const eta = at('lr', st.t);
     // Expected payoff for each pure action
-    const u = M.map((row) => row.reduce((acc, mij, j) => acc + mij * opp[j], 0));
+    const u = payoffVector(M, opp);
     const s = Math.max(1, ...u.map((x) => Math.abs(x)));
-    w = w.map((wi, i) => wi * Math.exp((eta / s) * u[i]));
-    p = normalize(w);
-    return p;
+    st.w = st.w.map((wi, i) => wi * Math.exp((eta / s) * u[i]));
+    return normalize(st.w);
+  });
+}
+
+function makeRegret(acts: number): Stepper {
+  const st = { p: uniform(acts), R: Array(acts).fill(0) as number[] }; // R: cumulative positive regrets
+  return withState(st, (opp, M) => {
+    const u = payoffVector(M, opp);
+    const ubar = st.p.reduce((acc, pi, i) => acc + pi * u[i], 0);
+    for (let i = 0; i < acts; i++) st.R[i] = Math.max(0, st.R[i] + (u[i] - ubar));
+    const sumPos = st.R.reduce((a, b) => a + b, 0);
+    // fallback to uniform when no positive regrets
+    st.p = sumPos <= 1e-12 ? uniform(acts) : st.R.map((r) => r / sumPos);
+    return st.p;
+  });
+}
+
+// Smooth fictitious play: soft best response to the opponent's empirical frequency
+// Payoffs are linear in the opponent mix, so averaging payoff vectors equals responding to the empirical
+// frequency; unlike a frequency count this also works when only payoff estimates are observed.
+function makeFP(acts: number, _hp: Record<string, number>, at: RateAt): Stepper {
+  const st = { uSum: Array(acts).fill(0) as number[], t: 0 };
+  return withState(st, (opp, M) => {
+    st.t += 1;
+    const u = payoffVector(M, opp);
+    for (let i = 0; i < acts; i++) st.uSum[i] += u[i];
+    return softmax(st.uSum.map((x) => x / st.t), at('temperature', st.t));
+  });
+}
+
+// Optimistic Hedge: weights use the cumulative payoff plus the last payoff again as a prediction of the next
+function makeOMWU(acts: number, hp: Record<string, number>): Stepper {
+  const st = { S: Array(acts).fill(0) as number[] };
+  return withState(st, (opp, M) => {
+    const g = scaledGradient(M, opp);
+    st.S = st.S.map((x, i) => x + g[i]);
+    return softmax(st.S.map((x, i) => x + g[i]), 1 / hp.lr);
+  });
+}
+
+// Optimistic gradient ascent: projected step along 2 g_t - g_{t-1}
+function makeOGDA(acts: number, hp: Record<string, number>): Stepper {
+  const st = { p: uniform(acts), prevGrad: null as number[] | null };
+  return withState(st, (opp, M) => {
+    const g = scaledGradient(M, opp);
+    const prev = st.prevGrad ?? g;
+    st.p = projectSimplex(st.p.map((x, i) => x + hp.lr * (2 * g[i] - prev[i])));
+    st.prevGrad = g;
+    return st.p;
+  });
+}
+
+// Extragradient: the runner first collects look-ahead strategies, then each player steps from its
+// current point using the gradient at the opponent's look-ahead strategy
+function makeExtragradient(acts: number, hp: Record<string, number>): Stepper {
+  const st = { p: uniform(acts) };
+  const ascend = (opp: number[], M: number[][]) => {
+    const g = scaledGradient(M, opp);
+    return projectSimplex(st.p.map((x, i) => x + hp.lr * g[i]));
+  };
+  return withState(st, Object.assign(
+    (opp: number[], M: number[][]) => {
+      st.p = ascend(opp, M);
+      return st.p;
+    },
+    { extrapolate: ascend },
+  ));
+}
+
+// Exp3 on losses: importance-weighted loss estimates, p proportional to exp(-lr * L)
+// Exp3-IX adds implicit exploration by inflating the denominator with gamma = lr / 2
+function makeExp3(ix: boolean) {
+  return (acts: number, hp: Record<string, number>): Stepper => {
+    const st = { p: uniform(acts), L: Array(acts).fill(0) as number[] };
+    return withState(st, (_opp, M, realized) => {
+      if (!realized) return st.p;
+      const loss = 1 - unitReward(realized.reward, M);
+      st.L[realized.action] += loss / (st.p[realized.action] + (ix ? hp.lr / 2 : 0));
+      st.p = softmax(st.L.map((x) => -x), 1 / hp.lr);
+      return st.p;
+    });
   };
+}
 
-  const stepRegret: Stepper = (opp, M) => {
-    const u = M.map((row) => row.reduce((acc, mij, j) => acc + mij * opp[j], 0));
-    const ubar = p.reduce((acc, pi, i) => acc + pi * u[i], 0);
-    // update cumulative positive regrets
-    for (let i = 0; i < acts; i++) R[i] = Math.max(0, R[i] + (u[i] - ubar));
-    const sumPos = R.reduce((a, b) => a + b, 0);
-    if (sumPos <= 1e-12) {
-      // fallback to uniform when no positive regrets
-      p = Array(acts).fill(1 / acts);
-    } else {
-      p = R.map((r) => r / sumPos);
-    }
-    return p;
+// Empirical mean reward per arm on the [0,1] scale, shared by the index-based bandits
+function armStats(acts: number) {
+  const st = { pulls: Array(acts).fill(0) as number[], means: Array(acts).fill(0) as number[], t: 0 };
+  return {
+    st,
+    observe: (M: number[][], realized: Realized) => {
+      const a = realized.action;
+      st.pulls[a] += 1;
+      st.means[a] += (unitReward(realized.reward, M) - st.means[a]) / st.pulls[a];
+      st.t += 1;
+    },
   };
+}
+
+// UCB1: deterministic play of the arm with the highest optimistic index; untried arms go first
+function makeUCB(acts: number, hp: Record<string, number>): Stepper {
+  const arms = armStats(acts);
+  const { st } = arms;
+  return withState(st, (_opp, M, realized) => {
+    if (realized) arms.observe(M, realized);
+    const untried = st.pulls.map((n, i) => (n === 0 ? i : -1)).filter((i) => i >= 0);
+    const pick = untried.length
+      ? untried
+      : argmaxes(st.means.map((m, i) => m + hp.c * Math.sqrt(Math.log(st.t) / st.pulls[i])));
+    return Array(acts).fill(0).map((_, i) => (i === pick[0] ? 1 : 0));
+  });
+}
+
+// epsilon-greedy: empirical best arm (ties split) with probability 1 - epsilon, uniform otherwise
+function makeGreedy(acts: number, hp: Record<string, number>): Stepper {
+  const arms = armStats(acts);
+  return withState(arms.st, (_opp, M, realized) => {
+    if (realized) arms.observe(M, realized);
+    const best = argmaxes(arms.st.means);
+    return Array(acts).fill(0).map((_, i) => (best.includes(i) ? (1 - hp.epsilon) / best.length : 0) + hp.epsilon / acts);
+  });
+}
 
-  const stepFP: Stepper = (opp, M) => {
-    // init opp history lazily to opp dimension
-    if (!oppHist || oppHist.length !== opp.length) oppHist = Array(opp.length).fill(0);
-    t += 1;
-    for (let j = 0; j < opp.length; j++) oppHist[j] += opp[j];
-    const q = oppHist.map((c) => c / t);
-    const u = M.map((row) => row.reduce((acc, mij, j) => acc + mij * q[j], 0));
-    // soft best response with temperature tau = 1/eta
-    const tau = 1 / Math.max(eta, 1e-3);
-    p = softmax(u, tau);
-    return p;
+// Independent Q-learning with Boltzmann exploration; `lr` is the Q step size
+function makeQ(acts: number, hp: Record<string, number>): Stepper {
+  const st = { Q: Array(acts).fill(0) as number[] };
+  return withState(st, (_opp, M, realized) => {
+    if (realized) {
+      const a = realized.action;
+      st.Q[a] += hp.lr * (unitReward(realized.reward, M) - st.Q[a]);
+    }
+    return softmax(st.Q, hp.tau);
+  });
+}
+
+// WoLF-PHC: hill-climb towards the greedy action, slowly when the policy beats the average policy.
+// The policy itself can become pure, so play it with epsilon exploration on top.
+function makeWoLF(acts: number, hp: Record<string, number>): Stepper {
+  const st = { Q: Array(acts).fill(0) as number[], p: uniform(acts), pi: uniform(acts), avgPolicy: uniform(acts), t: 0 };
+  return withState(st, (_opp, M, realized) => {
+    if (!realized) return st.p;
+    const { Q, pi } = st;
+    const a = realized.action;
+    Q[a] += hp.lr * (unitReward(realized.reward, M) - Q[a]);
+    st.t += 1;
+    st.avgPolicy = st.avgPolicy.map((x, i) => x + (pi[i] - x) / st.t);
+    const winning = pi.reduce((acc, x, i) => acc + x * Q[i], 0) > st.avgPolicy.reduce((acc, x, i) => acc + x * Q[i], 0);
+    const delta = winning ? hp.deltaWin : hp.deltaLose;
+    const best = argmaxes(Q)[0];
+    const next = [...pi];
+    for (let i = 0; i < acts; i++) {
+      if (i === best) continue;
+      const dec = Math.min(next[i], delta / (acts - 1));
+      next[i] -= dec;
+      next[best] += dec;
+    }
+    st.pi = next;
+    st.p = next.map((x) => (1 - hp.epsilon) * x + hp.epsilon / acts);
+    return st.p;
+  });
+}
+
+// GIGA-WoLF: gradient step on the policy, pulled back towards a slower baseline z when it overshoots
+function makeGIGA(acts: number, hp: Record<string, number>): Stepper {
+  const st = { p: uniform(acts), z: uniform(acts) };
+  return withState(st, (opp, M) => {
+    const g = scaledGradient(M, opp);
+    const xHat = projectSimplex(st.p.map((x, i) => x + hp.lr * g[i]));
+    const zNext = projectSimplex(st.z.map((x, i) => x + (hp.lr / 3) * g[i]));
+    const dz = Math.hypot(...zNext.map((x, i) => x - st.z[i]));
+    const gap = Math.hypot(...zNext.map((x, i) => x - xHat[i]));
+    const delta = gap > 1e-12 ? Math.min(1, dz / gap) : 1;
+    st.p = xHat.map((x, i) => x + delta * (zNext[i] - x));
+    st.z = zNext;
+    return st.p;
+  });
+}
+
+// Lenient Q-learning: buffer rewards per action and learn only from the best of each batch,
+// forgiving miscoordination caused by the other learner's exploration
+function makeLenient(acts: number, hp: Record<string, number>): Stepper {
+  const st = { Q: Array(acts).fill(0) as number[], buf: Array.from({ length: acts }, () => []) as number[][] };
+  return withState(st, (_opp, M, realized) => {
+    if (realized) {
+      const { Q, buf } = st;
+      const a = realized.action;
+      buf[a].push(unitReward(realized.reward, M));
+      if (buf[a].length >= hp.leniency) {
+        Q[a] += hp.lr * (Math.max(...buf[a]) - Q[a]);
+        buf[a] = [];
+      }
+    }
+    return softmax(st.Q, hp.tau);
+  });
+}
+
+const ALGORITHM_LIST: AlgorithmDef[] = [
+  {
+    id: 'hedge',
+    name: 'Hedge (MWU)',
+    description: 'Multiplicative weights on expected payoffs; no-regret, the average strategy converges in zero-sum games.',
+    feedback: 'full',
+    params: [SCHEDULED_LR],
+    make: makeHedge,
+  },
+  {
+    id: 'regret',
+    name: 'Regret matching',
+    description: 'Plays proportionally to cumulative positive regrets; parameter-free.',
+    feedback: 'full',
+    params: [],
+    make: makeRegret,
+  },
+  {
+    id: 'fp',
+    name: 'Fictitious play (smooth)',
+    description: 'Soft best response to the empirical frequency of the opponent.',
+    feedback: 'full',
+    params: [{ key: 'temperature', label: 'Softmax temperature', default: 2, min: 1e-4, max: 1000, step: 0.1, schedulable: true }],
+    make: makeFP,
+  },
+  {
+    id: 'omwu',
+    name: 'Optimistic Hedge',
+    description: 'Hedge with the last payoff counted twice; the last iterate converges in zero-sum games.',
+    feedback: 'full',
+    params: [LR],
+    make: makeOMWU,
+  },
+  {
+    id: 'ogda',
+    name: 'Optimistic GDA',
+    description: 'Projected gradient ascent along 2 g_t - g_{t-1}.',
+    feedback: 'full',
+    params: [LR],
+    make: makeOGDA,
+  },
+  {
+    id: 'extragradient',
+    name: 'Extragradient',
+    description: 'Projected gradient step taken at the opponent\'s look-ahead strategy.',
+    feedback: 'full',
+    params: [LR],
+    make: makeExtragradient,
+  },
+  {
+    id: 'exp3',
+    name: 'Exp3',
+    description: 'Exponential weights on importance-weighted loss estimates of the played action.',
+    feedback: 'bandit',
+    params: [LR],
+    make: makeExp3(false),
+  },
+  {
+    id: 'exp3ix',
+    name: 'Exp3-IX',
+    description: 'Exp3 with implicit exploration (gamma = lr / 2) for high-probability regret bounds.',
+    feedback: 'bandit',
+    params: [LR],
+    make: makeExp3(true),
+  },
+  {
+    id: 'ucb1',
+    name: 'UCB1',
+    description: 'Plays the arm with the highest upper confidence bound on its mean reward.',
+    feedback: 'bandit',
+    params: [{ key: 'c', label: 'Exploration constant', default: Math.SQRT2, min: 0, max: 10, step: 0.1 }],
+    make: makeUCB,
+  },
+  {
+    id: 'egreedy',
+    name: 'ε-greedy',
+    description: 'Empirically best arm, uniform exploration with probability ε.',
+    feedback: 'bandit',
+    params: [{ key: 'epsilon', label: 'Exploration rate ε', default: 0.1, min: 0, max: 1, step: 0.01 }],
+    make: makeGreedy,
+  },
+  {
+    id: 'qlearn',
+    name: 'Q-learning (Boltzmann)',
+    description: 'Independent stateless Q-learning on realized rewards with Boltzmann exploration.',
+    feedback: 'bandit',
+    params: [LR, TAU],
+    make: makeQ,
+  },
+  {
+    id: 'wolf',
+    name: 'WoLF-PHC',
+    description: 'Policy hill-climbing that learns fast when losing and slowly when winning.',
+    feedback: 'bandit',
+    params: [
+      LR,
+      { key: 'deltaWin', label: 'Policy step when winning', default: 0.01, min: 0, max: 1, step: 0.005 },
+      { key: 'deltaLose', label: 'Policy step when losing', default: 0.04, min: 0, max: 1, step: 0.005 },
+      { key: 'epsilon', label: 'Exploration rate ε', default: 0.1, min: 0, max: 1, step: 0.01 },
+    ],
+    make: makeWoLF,
+  },
+  {
+    id: 'gigawolf',
+    name: 'GIGA-WoLF',
+    description: 'Gradient ascent pulled towards a slower baseline strategy when it overshoots.',
+    feedback: 'full',
+    params: [LR],
+    make: makeGIGA,
+  },
+  {
+    id: 'lenient',
+    name: 'Lenient Q-learning',
+    description: 'Q-learning that updates on the best of several rewards per action, forgiving miscoordination.',
+    feedback: 'bandit',
+    params: [
+      LR,
+      TAU,
+      { key: 'leniency', label: 'Rewards per update', default: 5, min: 1, max: 50, integer: true },
+    ],
+    make: makeLenient,
+  },
+];
+
+export const ALGORITHMS: Record<string, AlgorithmDef> = Object.fromEntries(ALGORITHM_LIST.map((a) => [a.id, a]));
+
+export function isAlgId(x: any): x is AlgId {
+  return typeof x === 'string' && Object.prototype.hasOwnProperty.call(ALGORITHMS, x);
+}
+
+// Fill in defaults and clamp user-supplied values to each hyperparameter's range; unknown keys are dropped.
+// Schedulable keys keep a valid schedule object (rates clamped the same way), anything else falls back.
+export function resolveAlgParams(alg: AlgId, raw?: Record<string, any> | null): AlgParams {
+  const out: AlgParams = {};
+  for (const def of ALGORITHMS[alg].params) {
+    const clamp = (x: number) => {
+      if (def.integer) x = Math.round(x);
+      if (def.min != null) x = Math.max(def.min, x);
+      if (def.max != null) x = Math.min(def.max, x);
+      return x;
+    };
+    const v = raw?.[def.key];
+    const schedule = def.schedulable && v && typeof v === 'object' ? parseSchedule(v, clamp) : null;
+    if (schedule) {
+      out[def.key] = schedule.kind === 'constant' ? schedule.value : schedule;
+      continue;
+    }
+    out[def.key] = clamp(v != null && v !== '' && Number.isFinite(Number(v)) ? Number(v) : def.default);
+  }
+  return out;
+}
+
+// Runs stored before the registry only carried a shared `lr`; fictitious play read it as 1 / temperature
+export function legacyAlgParams(lr?: number | null): Record<string, number> {
+  return lr != null ? { lr, temperature: 1 / Math.max(lr, 1e-3) } : {};
+}
+
+export function makeStepper(alg: AlgId, acts: number, params?: Record<string, any> | null): Stepper {
+  if (!isAlgId(alg)) throw new Error(`unknown algorithm: ${alg}`);
+  let resolved = resolveAlgParams(alg, params);
+  const initial = () => Object.fromEntries(Object.entries(resolved).map(([k, v]) => [k, scheduleAt(v, 1)]));
+  // learners read `hp` and `at` on every step, so updating them in place takes effect on the next one
+  const hp = initial();
+  const step = ALGORITHMS[alg].make(acts, hp, (key, t) => scheduleAt(resolved[key], t));
+  if (ALGORITHMS[alg].feedback === 'bandit') step.realizedOnly = true;
+  step.retune = (next) => {
+    resolved = resolveAlgParams(alg, { ...resolved, ...next });
+    Object.assign(hp, initial());
+    return resolved;
   };
+  return step;
+}
+
+export const FEEDBACK_MODES: FeedbackMode[] = ['expected', 'sampled', 'bandit'];
+
+export function isFeedbackMode(x: any): x is FeedbackMode {
+  return FEEDBACK_MODES.includes(x);
+}
+
+// What a full-information learner gets to see of the last round, as an (opponent mix, own payoff matrix) pair.
+// `sampled` replaces the mix by the opponent's realized action; `bandit` only has the own realized reward,
+// turned into an importance-weighted payoff estimate r / p(a) on the played action. That estimate is passed
+// as a one-column matrix against a single opponent action, so steppers need no special case for it.
+function observation(
+  step: Stepper, feedback: FeedbackMode, M: number[][], p: number[], oppActs: number, last: Realized,
+): [number[], number[][]] {
+  if (feedback === 'sampled' || step.realizedOnly) {
+    return [Array(oppActs).fill(0).map((_, j) => (j === last.oppAction ? 1 : 0)), M];
+  }
+  const est = p.map((pi, i) => (i === last.action ? [last.reward / Math.max(pi, 1e-6)] : [0]));
+  return [[1], est];
+}
 
-  if (alg === 'hedge') return stepHedge;
-  if (alg === 'regret') return stepRegret;
-  return stepFP;
+// One strategy update for both players. With `expected` feedback and no extragradient learners A moves
+// first and B answers A's new mix; extragradient learners respond to the opponent's look-ahead strategy.
+// With `sampled` or `bandit` feedback both players update simultaneously from last round's observation
+// (there is none before the first round, so the initial strategies are kept; look-ahead steps are skipped).
+export function updateStrategies(
+  stepA: Stepper, stepB: Stepper,
+  pA: number[], pB: number[],
+  A: number[][], Bt: number[][],
+  lastA?: Realized, lastB?: Realized,
+  feedback: FeedbackMode = 'expected',
+): [number[], number[]] {
+  if (feedback !== 'expected') {
+    if (!lastA || !lastB) return [pA, pB];
+    const [oppA, MA] = observation(stepA, feedback, A, pA, pB.length, lastA);
+    const [oppB, MB] = observation(stepB, feedback, Bt, pB, pA.length, lastB);
+    return [stepA(oppA, MA, lastA), stepB(oppB, MB, lastB)];
+  }
+  if (!stepA.extrapolate && !stepB.extrapolate) {
+    const nextA = stepA(pB, A, lastA);
+    return [nextA, stepB(nextA, Bt, lastB)];
+  }
+  const lookA = stepA.extrapolate ? stepA.extrapolate(pB, A) : pA;
+  const lookB = stepB.extrapolate ? stepB.extrapolate(pA, Bt) : pB;
+  return [stepA(lookB, A, lastA), stepB(lookA, Bt, lastB)];
 }
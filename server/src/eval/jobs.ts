@@ -0,0 +1,136 @@
+import { getEvalMetricsByRunId, setEvalRunStatus } from '../db';
+import { GameSpec } from '../types';
+import { runEval } from './runner';
+
+export type EvalStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+// Sent as `progress` on the /eval socket; `done` and `total` count steps over all seeds and episodes
+export interface EvalProgress {
+  run_id: number;
+  status: EvalStatus;
+  done: number;
+  total: number;
+  error: string | null;
+}
+
+type EvalParams = Parameters<typeof runEval>[1];
+
+interface Job {
+  spec: GameSpec;
+  params: EvalParams;
+  user_id: number;
+  progress: EvalProgress;
+  cancelled: boolean;
+  lastEmit: number;
+}
+
+export const MAX_JOBS_PER_USER = 5; // queued or running
+const PROGRESS_EVERY_MS = 200;
+
+// Jobs run one at a time in submission order: they are CPU-bound, so running several at once would only
+// slow each of them down. Finished jobs leave memory; their status stays on eval_runs.
+const jobs = new Map<number, Job>();
+const queue: Job[] = [];
+let active: Job | null = null;
+const listeners = new Set<(p: EvalProgress) => void>();
+
+function emit(job: Job) {
+  job.lastEmit = Date.now();
+  const progress = { ...job.progress };
+  for (const cb of listeners) cb(progress);
+}
+
+export function onProgress(cb: (p: EvalProgress) => void): () => void {
+  listeners.add(cb);
+  return () => listeners.delete(cb);
+}
+
+export function totalSteps(params: { seeds: number[]; episodes: number; stepsPerEp: number }): number {
+  return params.seeds.length * params.episodes * params.stepsPerEp;
+}
+
+export function jobsOf(user_id: number): number {
+  return Array.from(jobs.values()).filter((j) => j.user_id === user_id).length;
+}
+
+// Queues a run already stored by createEvalRun (status `queued`)
+export function enqueue(spec: GameSpec, params: EvalParams, user_id: number): EvalProgress {
+  const job: Job = {
+    spec,
+    params,
+    user_id,
+    progress: { run_id: params.run_id, status: 'queued', done: 0, total: totalSteps(params), error: null },
+    cancelled: false,
+    lastEmit: 0,
+  };
+  jobs.set(params.run_id, job);
+  queue.push(job);
+  pump();
+  return { ...job.progress };
+}
+
+// A queued job is dropped at once; a running one stops at its next yield. False when the run is not
+// queued or running.
+export async function cancel(run_id: number): Promise<boolean> {
+  const job = jobs.get(run_id);
+  if (!job || job.cancelled) return false;
+  job.cancelled = true;
+  const i = queue.indexOf(job);
+  if (i >= 0) {
+    queue.splice(i, 1);
+    await finish(job, 'cancelled');
+  }
+  return true;
+}
+
+async function finish(job: Job, status: EvalStatus, error: string | null = null) {
+  jobs.delete(job.progress.run_id);
+  job.progress = { ...job.progress, status, error };
+  try {
+    await setEvalRunStatus(job.progress.run_id, status, error);
+  } catch (err) {
+    console.error('eval job status error', err);
+  }
+  emit(job);
+}
+
+async function run(job: Job) {
+  try {
+    job.progress.status = 'running';
+    await setEvalRunStatus(job.progress.run_id, 'running');
+    emit(job);
+    const completed = await runEval(job.spec, job.params, {
+      onProgress: (done) => {
+        job.progress.done = done;
+        if (Date.now() - job.lastEmit >= PROGRESS_EVERY_MS) emit(job);
+      },
+      cancelled: () => job.cancelled,
+    });
+    await finish(job, completed ? 'done' : 'cancelled');
+  } catch (err) {
+    console.error('eval job error', err);
+    await finish(job, 'failed', 'internal_error');
+  }
+}
+
+function pump() {
+  if (active || !queue.length) return;
+  const job = queue.shift()!;
+  active = job;
+  run(job).finally(() => {
+    active = null;
+    pump();
+  });
+}
+
+// Progress of a stored run: live while queued or running, otherwise rebuilt from the row and the
+// episodes it stored. Rows from before jobs existed have no status and always completed.
+export async function progressOf(run: any): Promise<EvalProgress> {
+  const job = jobs.get(Number(run.id));
+  if (job) return { ...job.progress };
+  const stepsPerEp = Number(run.stepsPerEp);
+  const total = totalSteps({ seeds: JSON.parse(run.seeds || '[]'), episodes: Number(run.episodes), stepsPerEp });
+  const status: EvalStatus = run.status ?? 'done';
+  const done = status === 'done' ? total : (await getEvalMetricsByRunId(Number(run.id))).length * stepsPerEp;
+  return { run_id: Number(run.id), status, done, total, error: run.error ?? null };
+}
@@ -0,0 +1,202 @@
+import { Policy, policyProbs } from '../rl/trainer';
+import { AlgId, AlgParams, FeedbackMode, GameSpec } from '../types';
+import { LearnerState, makeStepper, Realized, resolveAlgParams, Stepper, updateStrategies, withState } from './algos';
+
+type Vec = number[];
+
+// Seeded generator; `state`/`restore` let a forked run continue the exact same sequence
+export type Rng = (() => number) & { state: () => number; restore: (state: number) => void };
+
+export function mulberry32(seed: number): Rng {
+  let t = seed >>> 0;
+  const next = function () {
+    t += 0x6D2B79F5;
+    let x = Math.imul(t ^ (t >>> 15), 1 | t);
+    x ^= x + Math.imul(x ^ (x >>> 7), 61 | x);
+    return ((x ^ (x >>> 14)) >>> 0) / 4294967296;
+  };
+  return Object.assign(next, {
+    state: () => t,
+    restore: (state: number) => {
+      t = state >>> 0;
+    },
+  });
+}
+
+export function sampleIndex(p: Vec, rng: () => number): number {
+  const r = rng();
+  let acc = 0;
+  for (let i = 0; i < p.length; i++) {
+    acc += p[i];
+    if (r <= acc) return i;
+  }
+  return p.length - 1;
+}
+
+// B's payoffs seen from its own side: rows are B's actions
+export function transpose(M: number[][]): number[][] {
+  return M[0].map((_, j) => M.map((row) => row[j]));
+}
+
+export interface MatchConfig {
+  algA: AlgId;
+  algB: AlgId;
+  paramsA?: AlgParams | null; // hyperparameters per learner; missing keys take registry defaults
+  paramsB?: AlgParams | null;
+  feedback?: FeedbackMode; // defaults to 'expected'
+  human?: 'A' | 'B'; // this side's actions are supplied to `play` instead of sampled
+  policyA?: Policy | null; // a trained RL policy plays this side instead of algA/algB
+  policyB?: Policy | null;
+}
+
+// One round: the strategies both players committed to, the sampled actions and realized payoffs
+export interface Round {
+  pA: Vec;
+  pB: Vec;
+  a: number;
+  b: number;
+  rA: number;
+  rB: number;
+}
+
+export type Side = 'A' | 'B';
+
+// play() advances one round; the other methods are Arena interventions that take effect from the next round
+export interface Match {
+  play: (humanAction?: number) => Round; // humanAction is required when the config has a human side
+  retune: (side: Side, params: AlgParams) => AlgParams | null; // null unless the side is a registry learner
+  swap: (side: Side, alg: AlgId, params?: AlgParams | null) => AlgParams | null; // null for the human side
+  reset: (side: Side) => boolean; // fresh learner with the same hyperparameters, back to the uniform strategy
+  setPayoffs: (A: number[][], B: number[][]) => void;
+  payoffs: () => { A: number[][]; B: number[][] };
+  save: () => MatchState;
+  restore: (state: MatchState) => void; // the config must seat humans and policies on the same sides
+}
+
+// Everything a match updates, as plain JSON: who sits on each side with the learner's internal state,
+// the current strategies, last round's outcome and the (possibly perturbed) payoffs
+export interface MatchState {
+  seats: Record<Side, { kind: 'human' | 'policy' | 'alg'; alg: AlgId; params?: AlgParams | null; learner?: LearnerState }>;
+  pA: Vec;
+  pB: Vec;
+  lastA?: Realized;
+  lastB?: Realized;
+  A: number[][];
+  B: number[][];
+}
+
+// The human side's "strategy" is the empirical frequency of the moves made so far (uniform before the first)
+function humanStepper(acts: number): Stepper {
+  const st = { counts: Array(acts).fill(0) as number[] };
+  const step = withState(st, (_opp, _M, realized) => {
+    if (realized) st.counts[realized.action] += 1;
+    const n = st.counts.reduce((a, b) => a + b, 0);
+    return n ? st.counts.map((c) => c / n) : Array(acts).fill(1 / acts);
+  });
+  step.realizedOnly = true;
+  return step;
+}
+
+// A fixed trained policy: it conditions on the opponent's previous action and does not learn
+function policyStepper(pol: Policy): Stepper {
+  const step: Stepper = (_opp, _M, realized) => policyProbs(pol, realized?.oppAction ?? 0);
+  step.realizedOnly = true;
+  return step;
+}
+
+// Who plays a side; `alg`/`params` are what a reset rebuilds
+interface Seat {
+  kind: 'human' | 'policy' | 'alg';
+  alg: AlgId;
+  params?: AlgParams | null;
+  step: Stepper;
+}
+
+function seat(cfg: MatchConfig, side: Side, acts: number): Seat {
+  const alg = side === 'A' ? cfg.algA : cfg.algB;
+  const params = side === 'A' ? cfg.paramsA : cfg.paramsB;
+  if (cfg.human === side) return { kind: 'human', alg, params, step: humanStepper(acts) };
+  const policy = side === 'A' ? cfg.policyA : cfg.policyB;
+  if (policy) return { kind: 'policy', alg, params, step: policyStepper(policy) };
+  return { kind: 'alg', alg, params, step: makeStepper(alg, acts, params) };
+}
+
+// Two learners playing the repeated game from uniform strategies. Eval episodes and live Arena runs both
+// advance through `play`, so the same seed, learners and hyperparameters give the same sequence of rounds.
+// With a human side only the agent's action is sampled.
+export function createMatch(spec: GameSpec, cfg: MatchConfig, rng: () => number): Match {
+  let A = spec.A;
+  let B = spec.B;
+  let Bt = transpose(B);
+  const nA = A.length;
+  const nB = A[0].length;
+  const seats: Record<Side, Seat> = { A: seat(cfg, 'A', nA), B: seat(cfg, 'B', nB) };
+  let pA: Vec = Array(nA).fill(1 / nA);
+  let pB: Vec = Array(nB).fill(1 / nB);
+  let lastA: Realized | undefined;
+  let lastB: Realized | undefined;
+
+  const play = (humanAction?: number): Round => {
+    // update strategies given opponent's current mix (or last round's outcome for bandit learners)
+    [pA, pB] = updateStrategies(seats.A.step, seats.B.step, pA, pB, A, Bt, lastA, lastB, cfg.feedback);
+    const a = cfg.human === 'A' ? humanAction! : sampleIndex(pA, rng);
+    const b = cfg.human === 'B' ? humanAction! : sampleIndex(pB, rng);
+    const rA = A[a][b];
+    const rB = B[a][b];
+    lastA = { action: a, oppAction: b, reward: rA };
+    lastB = { action: b, oppAction: a, reward: rB };
+    return { pA, pB, a, b, rA, rB };
+  };
+
+  const acts = (side: Side) => (side === 'A' ? nA : nB);
+
+  const retune = (side: Side, params: AlgParams) => {
+    const s = seats[side];
+    if (s.kind !== 'alg' || !s.step.retune) return null;
+    s.params = s.step.retune(params);
+    return s.params;
+  };
+
+  // The new learner starts from its own initial state but plays on from the current strategy
+  const swap = (side: Side, alg: AlgId, params?: AlgParams | null) => {
+    const s = seats[side];
+    if (s.kind === 'human') return null;
+    const resolved = resolveAlgParams(alg, params);
+    seats[side] = { kind: 'alg', alg, params: resolved, step: makeStepper(alg, acts(side), resolved) };
+    return resolved;
+  };
+
+  const reset = (side: Side) => {
+    const s = seats[side];
+    if (s.kind !== 'alg') return false;
+    s.step = makeStepper(s.alg, acts(side), s.params);
+    if (side === 'A') pA = Array(nA).fill(1 / nA);
+    else pB = Array(nB).fill(1 / nB);
+    return true;
+  };
+
+  const setPayoffs = (nextA: number[][], nextB: number[][]) => {
+    A = nextA;
+    B = nextB;
+    Bt = transpose(B);
+  };
+
+  const save = (): MatchState => {
+    const saveSeat = (s: Seat) => ({ kind: s.kind, alg: s.alg, params: s.params, learner: s.step.save?.() });
+    return JSON.parse(JSON.stringify({ seats: { A: saveSeat(seats.A), B: saveSeat(seats.B) }, pA, pB, lastA, lastB, A, B }));
+  };
+
+  const restore = (state: MatchState) => {
+    for (const side of ['A', 'B'] as Side[]) {
+      const saved = state.seats[side];
+      if (saved.kind === 'alg') {
+        seats[side] = { kind: 'alg', alg: saved.alg, params: saved.params, step: makeStepper(saved.alg, acts(side), saved.params) };
+      }
+      if (saved.learner) seats[side].step.load?.(saved.learner);
+    }
+    ({ pA, pB, lastA, lastB } = state);
+    setPayoffs(state.A, state.B);
+  };
+
+  return { play, retune, swap, reset, setPayoffs, payoffs: () => ({ A, B }), save, restore };
+}
@@ -1,45 +1,95 @@
 import express, { Request, Response } from 'express';
 import { requireAuth } from '../auth';
 import { createEvalRun, getEvalMetricsByRunId, getEvalRunById, getEvalSummaryByRunId } from '../db';
-import { generateEvalTrace, runEval } from './runner';
+import { resolveGame, resolveRunGame } from '../games/registry';
+import { isAlgId, isFeedbackMode, legacyAlgParams, resolveAlgParams } from './algos';
+import { cancel, enqueue, jobsOf, MAX_JOBS_PER_USER, progressOf, totalSteps } from './jobs';
+import { generateEvalTrace, storedRunConfig } from './runner';
 
 const router = express.Router();
 
+const MAX_TRACE_STEPS = 100000; // the trace is replayed inside the request, so larger runs are refused
+
 router.use(requireAuth);
 
-// POST /api/eval/start
+// POST /api/eval/start { game, gameParams?, algA, algB, seeds, episodes, stepsPerEp, paramsA?, paramsB?, params?, lr?, feedback='expected' }
+// `paramsA`/`paramsB` are per-player hyperparameter blocks (numbers or schedules for schedulable keys);
+// the shared `params` block and a bare `lr` from older clients fill in whatever they leave out.
+// The run is queued as a background job and the answer { run_id, status, done, total } comes back at
+// once; follow it on the /eval socket or GET /status/:run_id.
 router.post('/start', async (req: Request, res: Response) => {
   try {
-    const { game, algA, algB, seeds, episodes, stepsPerEp, lr } = req.body || {};
+    const { game, gameParams, algA, algB, seeds, episodes, stepsPerEp, lr, params, paramsA: rawA, paramsB: rawB, feedback = 'expected' } = req.body || {};
     if (!game || !algA || !algB || !Array.isArray(seeds) || !episodes || !stepsPerEp) {
       return res.status(400).json({ error: 'invalid_params' });
     }
+    if (!isAlgId(algA) || !isAlgId(algB)) return res.status(400).json({ error: 'invalid_alg' });
+    if (!isFeedbackMode(feedback)) return res.status(400).json({ error: 'invalid_feedback' });
+    if (![params, rawA, rawB].every((p) => p == null || (typeof p === 'object' && !Array.isArray(p)))) {
+      return res.status(400).json({ error: 'invalid_params' });
+    }
     const user_id = (req as any).user.uid as number;
+    if (jobsOf(user_id) >= MAX_JOBS_PER_USER) return res.status(429).json({ error: 'too_many_jobs' });
+    const spec = await resolveGame(String(game), user_id, gameParams);
+    if (!spec) return res.status(400).json({ error: 'invalid_game' });
+    const shared = { ...legacyAlgParams(lr != null ? Number(lr) : null), ...params };
+    const paramsA = resolveAlgParams(algA, { ...shared, ...rawA });
+    const paramsB = resolveAlgParams(algB, { ...shared, ...rawB });
     const run_id = await createEvalRun({
       user_id,
-      game: String(game),
+      game: spec.id,
       algA: String(algA),
       algB: String(algB),
       seeds: seeds.map((x: any) => Number(x)),
       episodes: Number(episodes),
       stepsPerEp: Number(stepsPerEp),
       lr: lr != null ? Number(lr) : null,
+      gameParams: spec.params ?? null,
+      paramsA,
+      paramsB,
+      feedback,
+      spec,
     });
-    // run synchronously for simplicity
-    await runEval({ run_id, game, algA, algB, seeds: seeds.map((x: any) => Number(x)), episodes: Number(episodes), stepsPerEp: Number(stepsPerEp), lr: lr != null ? Number(lr) : undefined });
-    return res.json({ run_id });
+    const progress = enqueue(spec, { run_id, game: spec.id, algA, algB, seeds: seeds.map((x: any) => Number(x)), episodes: Number(episodes), stepsPerEp: Number(stepsPerEp), paramsA, paramsB, feedback }, user_id);
+    return res.json(progress);
   } catch (err) {
     console.error('eval/start error', err);
     return res.status(500).json({ error: 'internal_error' });
   }
 });
 
+// GET /api/eval/status/:run_id -> { run_id, status, done, total, error }, for clients that poll
+router.get('/status/:run_id', async (req: Request, res: Response) => {
+  try {
+    const run = await getEvalRunById(Number(req.params.run_id));
+    if (!run || Number(run.user_id) !== (req as any).user.uid) return res.status(404).json({ error: 'not_found' });
+    return res.json(await progressOf(run));
+  } catch (err) {
+    console.error('eval/status error', err);
+    return res.status(500).json({ error: 'internal_error' });
+  }
+});
+
+// POST /api/eval/cancel { run_id } -> the run's progress once cancelled; a running job keeps the
+// episodes it finished but gets no summary
+router.post('/cancel', async (req: Request, res: Response) => {
+  try {
+    const run = await getEvalRunById(Number(req.body?.run_id));
+    if (!run || Number(run.user_id) !== (req as any).user.uid) return res.status(404).json({ error: 'not_found' });
+    if (!(await cancel(Number(run.id)))) return res.status(409).json({ error: 'not_cancellable' });
+    return res.json(await progressOf(run));
+  } catch (err) {
+    console.error('eval/cancel error', err);
+    return res.status(500).json({ error: 'internal_error' });
+  }
+});
+
 // GET /api/eval/summary/:run_id
 router.get('/summary/:run_id', async (req: Request, res: Response) => {
   try {
     const run_id = Number(req.params.run_id);
     const run = await getEvalRunById(run_id);
-    if (!run) return res.status(404).json({ error: 'not_found' });
+    if (!run || Number(run.user_id) !== (req as any).user.uid) return res.status(404).json({ error: 'not_found' });
     const summary = await getEvalSummaryByRunId(run_id);
     if (!summary) return res.status(204).end();
     return res.json({ run, summary });
@@ -52,6 +102,8 @@ router.get('/summary/:run_id', async (req: Request, res: Response) => {
 router.get('/metrics/:run_id', async (req: Request, res: Response) => {
   try {
     const run_id = Number(req.params.run_id);
+    const run = await getEvalRunById(run_id);
+    if (!run || Number(run.user_id) !== (req as any).user.uid) return res.status(404).json({ error: 'not_found' });
     const rows = await getEvalMetricsByRunId(run_id);
     return res.json(rows);
   } catch (err) {
@@ -59,22 +111,19 @@ router.get('/metrics/:run_id', async (req: Request, res: Response) => {
   }
 });
 
-// GET /api/eval/trace/:run_id -> full step-level trace (may be large)
+// GET /api/eval/trace/:run_id -> full step-level trace; runs of more than MAX_TRACE_STEPS steps answer
+// 400 run_too_large
 router.get('/trace/:run_id', async (req: Request, res: Response) => {
   try {
     const run_id = Number(req.params.run_id);
     const run = await getEvalRunById(run_id);
-    if (!run) return res.status(404).json({ error: 'not_found' });
-    const seeds = JSON.parse(run.seeds || '[]') as number[];
-    const payload = generateEvalTrace({
-      game: run.game,
-      algA: run.algA,
-      algB: run.algB,
-      seeds,
-      episodes: Number(run.episodes),
-      stepsPerEp: Number(run.stepsPerEp),
-      lr: run.lr != null ? Number(run.lr) : undefined,
-    });
+    if (!run || Number(run.user_id) !== (req as any).user.uid) return res.status(404).json({ error: 'not_found' });
+    // runs replay the payoffs stored with them; older runs whose custom game was deleted can no longer be traced
+    const cfg = storedRunConfig(run);
+    if (totalSteps(cfg) > MAX_TRACE_STEPS) return res.status(400).json({ error: 'run_too_large' });
+    const spec = await resolveRunGame(run);
+    if (!spec) return res.status(410).json({ error: 'game_unavailable' });
+    const payload = generateEvalTrace(spec, cfg);
     return res.json(payload);
   } catch (err) {
     console.error('eval trace error', err);
@@ -1,7 +1,8 @@
 import { db, insertEvalMetric, insertEvalSummary } from '../db';
-import { makeStepper } from './algos';
-
-type GameId = 'rps' | 'mp' | 'pd';
+import { exploitability } from '../solve/exploitability';
+import { AlgId, AlgParams, FeedbackMode, GameId, GameSpec } from '../types';
+import { isFeedbackMode, legacyAlgParams } from './algos';
+import { createMatch, mulberry32 } from './match';
 
 type Vec = number[];
 
@@ -11,110 +12,64 @@ function normalize(v: number[]): number[] {
   return v.map((x) => x / s);
 }
 
-function mulberry32(seed: number) {
-  let t = seed >>> 0;
-  return function () {
-    t += 0x6D2B79F5;
-    let x = Math.imul(t ^ (t >>> 15), 1 | t);
-    x ^= x + Math.imul(x ^ (x >>> 7), 61 | x);
-    return ((x ^ (x >>> 14)) >>> 0) / 4294967296;
-  };
-}
+const YIELD_EVERY = 5000; // steps between returns to the event loop, so sockets and requests keep flowing
 
-function sampleIndex(p: Vec, rng: () => number): number {
-  const r = rng();
-  let acc = 0;
-  for (let i = 0; i < p.length; i++) {
-    acc += p[i];
-    if (r <= acc) return i;
-  }
-  return p.length - 1;
+// Hooks of a background job (see jobs.ts): progress in steps played, and a cancellation check made
+// whenever the run yields
+export interface EvalJobHooks {
+  onProgress?: (done: number) => void;
+  cancelled?: () => boolean;
 }
 
-const GAMES = {
-  rps: {
-    A: [
-      [0, -1, 1],
-      [1, 0, -1],
-      [-1, 1, 0],
-    ],
-    B: [
-      [0, 1, -1],
-      [-1, 0, 1],
-      [1, -1, 0],
-    ],
-    actsA: ['R', 'P', 'S'],
-    actsB: ['R', 'P', 'S'],
-    zeroSum: true,
-  },
-  mp: {
-    A: [
-      [1, -1],
-      [-1, 1],
-    ],
-    B: [
-      [-1, 1],
-      [1, -1],
-    ],
-    actsA: ['H', 'T'],
-    actsB: ['H', 'T'],
-    zeroSum: true,
-  },
-  pd: {
-    A: [
-      [3, 0],
-      [5, 1],
-    ],
-    B: [
-      [3, 5],
-      [0, 1],
-    ],
-    actsA: ['C', 'D'],
-    actsB: ['C', 'D'],
-    zeroSum: false,
-  },
-} as const;
-
-export async function runEval(params: {
+// Plays every seed and episode, storing per-episode metrics and then the summary. Resolves false, without
+// a summary, when the job is cancelled part-way.
+export async function runEval(spec: GameSpec, params: {
   run_id: number;
   game: GameId;
-  algA: 'hedge' | 'regret' | 'fp';
-  algB: 'hedge' | 'regret' | 'fp';
+  algA: AlgId;
+  algB: AlgId;
   seeds: number[];
   episodes: number;
   stepsPerEp: number;
-  lr?: number;
-}) {
-  const spec = GAMES[params.game];
-  const A = spec.A as unknown as number[][];
-  const B = spec.B as unknown as number[][];
+  paramsA?: AlgParams | null; // hyperparameters per learner; missing keys take registry defaults
+  paramsB?: AlgParams | null;
+  feedback?: FeedbackMode; // defaults to 'expected'
+}, hooks: EvalJobHooks = {}): Promise<boolean> {
+  const A = spec.A;
+  const B = spec.B;
   const nA = A.length;
   const nB = A[0].length;
   const uniformA = Array(nA).fill(1 / nA);
+  // scale used to map zero-sum rewards onto a [0,1] win rate
+  const maxAbsA = Math.max(1e-9, ...A.flat().map((x) => Math.abs(x)));
 
-  const metrics: Array<{ winA: number | null; avgRewardA: number; coopRate: number | null; l2Dist: number | null; seed: number; ep: number }> = [];
+  let done = 0;
+  const metrics: Array<{ winA: number | null; avgRewardA: number; coopRate: number | null; l2Dist: number | null; nashConv: number; avgNashConv: number; seed: number; ep: number }> = [];
 
   for (const seed of params.seeds) {
     const rng = mulberry32(seed);
     for (let ep = 1; ep <= params.episodes; ep++) {
       // reset per episode
+      const match = createMatch(spec, params, rng);
       let pA: Vec = [...uniformA];
       let pB: Vec = Array(nB).fill(1 / nB);
-      const stepA = makeStepper(params.algA, nA, params.lr);
-      const stepB = makeStepper(params.algB, nB, params.lr);
-      let coopCount = 0; // for PD only: action index 0 is 'C'
+      let coopCount = 0; // general-sum games only: action index 0 is the cooperative one ('C' in PD)
       let rewardSumA = 0;
+      const sumA: Vec = Array(nA).fill(0);
+      const sumB: Vec = Array(nB).fill(0);
 
       for (let t = 0; t < params.stepsPerEp; t++) {
-        // update strategies given opponent's current mix
-        pA = stepA(pB, A);
-        pB = stepB(pA, B);
-        // sample actions
-        const a = sampleIndex(pA, rng);
-        const b = sampleIndex(pB, rng);
-        const rA = A[a][b];
-        rewardSumA += rA;
-        if (params.game === 'pd' && a === 0) coopCount += 1;
+        if (++done % YIELD_EVERY === 0) {
+          hooks.onProgress?.(done);
+          await new Promise((resolve) => setImmediate(resolve));
+          if (hooks.cancelled?.()) return false;
+        }
+        const round = match.play();
+        ({ pA, pB } = round);
+        for (let i = 0; i < nA; i++) sumA[i] += pA[i];
+        for (let j = 0; j < nB; j++) sumB[j] += pB[j];
+        rewardSumA += round.rA;
+        if (!spec.zeroSum && round.a === 0) coopCount += 1;
       }
 
       const avgRewardA = rewardSumA / params.stepsPerEp;
@@ -122,16 +77,27 @@ export async function runEval(params: {
       let coopRate: number | null = null;
       let l2Dist: number | null = null;
       if (spec.zeroSum) {
-        winA = (avgRewardA + 1) / 2; // map [-1,1] to [0,1]
+        winA = (avgRewardA / maxAbsA + 1) / 2; // map [-max,max] to [0,1]
         // l2 distance to uniform
         const d2 = pA.reduce((acc, pi, i) => acc + Math.pow(pi - uniformA[i], 2), 0);
         l2Dist = Math.sqrt(d2);
       } else {
         coopRate = coopCount / params.stepsPerEp;
       }
-
-      await insertEvalMetric({ run_id: params.run_id, seed, ep, winA, avgRewardA, coopRate, l2Dist });
-      metrics.push({ winA, avgRewardA, coopRate, l2Dist, seed, ep });
+      const avgPA = sumA.map((x) => x / params.stepsPerEp);
+      const avgPB = sumB.map((x) => x / params.stepsPerEp);
+      const last = exploitability(A, B, pA, pB);
+      const avg = exploitability(A, B, avgPA, avgPB);
+
+      await insertEvalMetric({
+        run_id: params.run_id, seed, ep, winA, avgRewardA, coopRate, l2Dist,
+        exploitA: last.gainA, exploitB: last.gainB, nashConv: last.nashConv,
+        avgExploitA: avg.gainA, avgExploitB: avg.gainB, avgNashConv: avg.nashConv,
+        pA, pB, avgPA, avgPB,
+      });
+      metrics.push({ winA, avgRewardA, coopRate, l2Dist, nashConv: last.nashConv, avgNashConv: avg.nashConv, seed, ep });
+      hooks.onProgress?.(done);
+      if (hooks.cancelled?.()) return false;
     }
   }
 
@@ -147,11 +113,15 @@ export async function runEval(params: {
   const avgList = metrics.map(m => m.avgRewardA).filter((x): x is number => x != null);
   const coopList = metrics.map(m => m.coopRate).filter((x): x is number => x != null);
   const l2List = metrics.map(m => m.l2Dist).filter((x): x is number => x != null);
+  const ncList = metrics.map(m => m.nashConv);
+  const avgNcList = metrics.map(m => m.avgNashConv);
 
   const msWin = meanStd(winList);
   const msAvg = meanStd(avgList);
   const msCoop = meanStd(coopList);
   const msL2 = meanStd(l2List);
+  const msNc = meanStd(ncList);
+  const msAvgNc = meanStd(avgNcList);
 
   await insertEvalSummary({
     run_id: params.run_id,
@@ -159,7 +129,10 @@ export async function runEval(params: {
     avgRewardA_mean: msAvg.mean, avgRewardA_std: msAvg.std,
     coopRate_mean: msCoop.mean, coopRate_std: msCoop.std,
     l2Dist_mean: msL2.mean, l2Dist_std: msL2.std,
+    nashConv_mean: msNc.mean, nashConv_std: msNc.std,
+    avgNashConv_mean: msAvgNc.mean, avgNashConv_std: msAvgNc.std,
   });
+  return true;
 }
 
 export type EvalTraceStep = {
@@ -172,40 +145,90 @@ export type EvalTraceStep = {
   rewardB: number;
   pA: number[];
   pB: number[];
+  avgA: number[]; // running average of pA over the episode so far
+  avgB: number[];
 };
 
-export function generateEvalTrace(params: {
+// Replay config of a stored eval_runs row; runs stored before the algorithm registry only carry `lr`,
+// runs stored before feedback modes used expected payoffs
+export function storedRunConfig(run: any) {
+  return {
+    game: String(run.game),
+    algA: String(run.algA),
+    algB: String(run.algB),
+    seeds: JSON.parse(run.seeds || '[]') as number[],
+    episodes: Number(run.episodes),
+    stepsPerEp: Number(run.stepsPerEp),
+    paramsA: run.paramsA ? JSON.parse(run.paramsA) : legacyAlgParams(run.lr),
+    paramsB: run.paramsB ? JSON.parse(run.paramsB) : legacyAlgParams(run.lr),
+    feedback: isFeedbackMode(run.feedback) ? run.feedback : 'expected' as FeedbackMode,
+  };
+}
+
+// Steps a joint-action replay must play: every episode of each selected seed up to `ep`, since episodes of
+// one seed share its generator
+export function jointReplaySteps(params: { seeds: number[]; episodes: number; stepsPerEp: number }, filter: { seed?: number; ep?: number }): number {
+  const seeds = filter.seed != null ? params.seeds.filter((s) => s === filter.seed).length : params.seeds.length;
+  const episodes = filter.ep != null ? Math.min(Math.max(0, filter.ep), params.episodes) : params.episodes;
+  return seeds * episodes * params.stepsPerEp;
+}
+
+// Replays an eval run counting joint actions (optionally of one seed and/or episode) without keeping
+// its trace; yields to the event loop like runEval
+export async function countEvalJointActions(spec: GameSpec, params: {
+  seeds: number[];
+  episodes: number;
+  stepsPerEp: number;
+  algA: AlgId;
+  algB: AlgId;
+  paramsA?: AlgParams | null;
+  paramsB?: AlgParams | null;
+  feedback?: FeedbackMode;
+}, filter: { seed?: number; ep?: number }): Promise<number[][]> {
+  const counts = spec.A.map((row) => row.map(() => 0));
+  let done = 0;
+  for (const seed of params.seeds) {
+    if (filter.seed != null && seed !== filter.seed) continue;
+    const rng = mulberry32(seed);
+    const lastEp = filter.ep != null ? Math.min(filter.ep, params.episodes) : params.episodes;
+    for (let ep = 1; ep <= lastEp; ep++) {
+      const match = createMatch(spec, params, rng);
+      for (let t = 0; t < params.stepsPerEp; t++) {
+        if (++done % YIELD_EVERY === 0) await new Promise((resolve) => setImmediate(resolve));
+        const { a, b } = match.play();
+        if (filter.ep == null || ep === filter.ep) counts[a][b] += 1;
+      }
+    }
+  }
+  return counts;
+}
+
+export function generateEvalTrace(spec: GameSpec, params: {
   game: GameId;
-  algA: 'hedge' | 'regret' | 'fp';
-  algB: 'hedge' | 'regret' | 'fp';
+  algA: AlgId;
+  algB: AlgId;
   seeds: number[];
   episodes: number;
   stepsPerEp: number;
-  lr?: number;
+  paramsA?: AlgParams | null;
+  paramsB?: AlgParams | null;
+  feedback?: FeedbackMode;
 }): { steps: EvalTraceStep[]; actsA: string[]; actsB: string[] } {
-  const spec = GAMES[params.game];
-  if (!spec) throw new Error('invalid_game');
-  const A = spec.A as unknown as number[][];
-  const B = spec.B as unknown as number[][];
-  const nA = A.length;
-  const nB = A[0].length;
+  const nA = spec.A.length;
+  const nB = spec.A[0].length;
   const steps: EvalTraceStep[] = [];
 
   for (const seed of params.seeds) {
     const rng = mulberry32(seed);
     for (let ep = 1; ep <= params.episodes; ep++) {
-      let pA: Vec = Array(nA).fill(1 / nA);
-      let pB: Vec = Array(nB).fill(1 / nB);
-      const stepA = makeStepper(params.algA, nA, params.lr);
-      const stepB = makeStepper(params.algB, nB, params.lr);
+      const match = createMatch(spec, params, rng);
+      const avgA: Vec = Array(nA).fill(0);
+      const avgB: Vec = Array(nB).fill(0);
 
       for (let t = 1; t <= params.stepsPerEp; t++) {
-        pA = stepA(pB, A);
-        pB = stepB(pA, B);
-        const a = sampleIndex(pA, rng);
-        const b = sampleIndex(pB, rng);
-        const rA = A[a][b];
-        const rB = B[a][b];
+        const { pA, pB, a, b, rA, rB } = match.play();
+        for (let i = 0; i < nA; i++) avgA[i] += (pA[i] - avgA[i]) / t;
+        for (let j = 0; j < nB; j++) avgB[j] += (pB[j] - avgB[j]) / t;
         steps.push({
           seed,
           ep,
@@ -216,6 +239,8 @@ export function generateEvalTrace(params: {
           rewardB: rB,
           pA: [...pA],
           pB: [...pB],
+          avgA: [...avgA],
+          avgB: [...avgB],
         });
       }
     }
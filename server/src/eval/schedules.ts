@@ -0,0 +1,59 @@
+import { Schedulable, ScheduleKind, ScheduleSpec } from '../types';
+
+// Step-size schedules shared by the eval learners and the RL trainer
+export const SCHEDULE_KINDS: ScheduleKind[] = ['constant', 'inv', 'inv_sqrt', 'exp', 'piecewise'];
+
+const MAX_PIECES = 50;
+
+function finite(x: any): x is number {
+  return typeof x === 'number' && Number.isFinite(x);
+}
+
+// Validate a schedule object; `clamp` keeps every rate inside the hyperparameter's range
+export function parseSchedule(raw: any, clamp: (x: number) => number = (x) => x): ScheduleSpec | null {
+  if (!raw || typeof raw !== 'object' || !SCHEDULE_KINDS.includes(raw.kind)) return null;
+  const value = Number(raw.value);
+  if (!Number.isFinite(value)) return null;
+  const kind = raw.kind as ScheduleKind;
+  if (kind === 'exp') {
+    const decay = Number(raw.decay);
+    if (!Number.isFinite(decay) || decay < 0) return null;
+    return { kind, value: clamp(value), decay };
+  }
+  if (kind === 'piecewise') {
+    const { steps, values } = raw;
+    if (!Array.isArray(steps) || !Array.isArray(values) || steps.length !== values.length || steps.length > MAX_PIECES) return null;
+    if (!steps.every((s: any, i: number) => Number.isInteger(s) && s > 1 && (i === 0 || s > steps[i - 1]))) return null;
+    if (!values.every(finite)) return null;
+    return { kind, value: clamp(value), steps: [...steps], values: values.map(clamp) };
+  }
+  return { kind, value: clamp(value) };
+}
+
+// A plain number or a valid schedule; null when the input is neither
+export function parseSchedulable(raw: any): Schedulable | null {
+  if (raw != null && typeof raw === 'object') return parseSchedule(raw);
+  return raw != null && raw !== '' && Number.isFinite(Number(raw)) ? Number(raw) : null;
+}
+
+// Rate at step t (1-based)
+export function scheduleAt(s: Schedulable, t: number): number {
+  if (typeof s === 'number') return s;
+  const k = Math.max(1, t);
+  switch (s.kind) {
+    case 'inv':
+      return s.value / k;
+    case 'inv_sqrt':
+      return s.value / Math.sqrt(k);
+    case 'exp':
+      return s.value * Math.exp(-(s.decay ?? 0) * (k - 1));
+    case 'piecewise': {
+      let rate = s.value;
+      const steps = s.steps ?? [];
+      for (let i = 0; i < steps.length && k >= steps[i]; i++) rate = s.values![i];
+      return rate;
+    }
+    default:
+      return s.value;
+  }
+}
@@ -0,0 +1,37 @@
+import { Server } from 'socket.io';
+import { userFromCookieHeader } from '../auth';
+import { getEvalRunById } from '../db';
+import { onProgress, progressOf } from './jobs';
+
+// /eval namespace: clients join the room of the eval run `run_id` from the handshake query and receive
+// `progress` events (see EvalProgress), the current one on connect and then as the job advances, until
+// its status is done, failed or cancelled. Only the run's owner may subscribe.
+export function attachEvalNamespace(io: Server) {
+  const nsp = io.of('/eval');
+  nsp.use(async (socket, next) => {
+    const user = userFromCookieHeader(socket.handshake.headers.cookie);
+    if (!user) return next(new Error('unauthorized'));
+    try {
+      const run = await getEvalRunById(Number(socket.handshake.query?.run_id));
+      if (!run || Number(run.user_id) !== user.uid) return next(new Error('not_found'));
+      socket.data.run = run;
+      next();
+    } catch (err) {
+      console.error('eval socket error', err);
+      next(new Error('internal_error'));
+    }
+  });
+  nsp.on('connection', async (socket) => {
+    const run = socket.data.run;
+    socket.join(String(run.id));
+    try {
+      socket.emit('progress', await progressOf(run));
+    } catch (err) {
+      console.error('eval socket error', err);
+    }
+  });
+  onProgress((progress) => {
+    nsp.to(String(progress.run_id)).emit('progress', progress);
+  });
+  return nsp;
+}
@@ -0,0 +1,245 @@
+import { mulberry32, transpose } from '../eval/match';
+import { GameSpec } from '../types';
+
+export interface GameParamDef {
+  key: string;
+  label: string;
+  default: number;
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+export interface GameFamily {
+  id: string;
+  name: string;
+  description: string;
+  params: GameParamDef[];
+  build: (p: Record<string, number>) => GameSpec;
+}
+
+const MAX_RANDOM_ACTIONS = 8;
+
+function negate(M: number[][]): number[][] {
+  return M.map((row) => row.map((x) => (x === 0 ? 0 : -x)));
+}
+
+// Symmetric 2-player game: B's payoff is A's payoff with roles swapped
+function symmetric(id: string, name: string, acts: string[], A: number[][], zeroSum = false): GameSpec {
+  return { id, name, actsA: acts, actsB: acts, A, B: transpose(A), zeroSum };
+}
+
+const FAMILIES: GameFamily[] = [
+  {
+    id: 'rps',
+    name: 'Rock-Paper-Scissors',
+    description: 'Classic zero-sum cyclic game with a unique uniform equilibrium.',
+    params: [],
+    build: () => ({
+      id: 'rps',
+      name: 'Rock-Paper-Scissors',
+      actsA: ['R', 'P', 'S'],
+      actsB: ['R', 'P', 'S'],
+      A: [
+        [0, -1, 1],
+        [1, 0, -1],
+        [-1, 1, 0],
+      ],
+      B: [
+        [0, 1, -1],
+        [-1, 0, 1],
+        [1, -1, 0],
+      ],
+      zeroSum: true,
+    }),
+  },
+  {
+    id: 'mp',
+    name: 'Matching Pennies',
+    description: 'Zero-sum 2x2 game; A wins on a match, B on a mismatch.',
+    params: [],
+    build: () => ({
+      id: 'mp',
+      name: 'Matching Pennies',
+      actsA: ['H', 'T'],
+      actsB: ['H', 'T'],
+      A: [
+        [1, -1],
+        [-1, 1],
+      ],
+      B: [
+        [-1, 1],
+        [1, -1],
+      ],
+      zeroSum: true,
+    }),
+  },
+  {
+    id: 'pd',
+    name: "Prisoner's Dilemma",
+    description: 'Temptation T, reward R, punishment P and sucker S; a dilemma when T > R > P > S.',
+    params: [
+      { key: 'T', label: 'Temptation', default: 5 },
+      { key: 'R', label: 'Reward', default: 3 },
+      { key: 'P', label: 'Punishment', default: 1 },
+      { key: 'S', label: 'Sucker', default: 0 },
+    ],
+    // Payoffs: (R,R)= (3,3), (S,T)= (0,5), (T,S)= (5,0), (P,P)= (1,1) with defaults
+    build: (p) => symmetric('pd', "Prisoner's Dilemma", ['C', 'D'], [
+      [p.R, p.S],
+      [p.T, p.P],
+    ]),
+  },
+  {
+    id: 'stag',
+    name: 'Stag Hunt',
+    description: 'Coordination game: hunting stag pays S only if both do; hare always pays H.',
+    params: [
+      { key: 'S', label: 'Stag payoff', default: 4 },
+      { key: 'H', label: 'Hare payoff', default: 3 },
+      { key: 'F', label: 'Failed stag', default: 0 },
+    ],
+    build: (p) => symmetric('stag', 'Stag Hunt', ['Stag', 'Hare'], [
+      [p.S, p.F],
+      [p.H, p.H],
+    ]),
+  },
+  {
+    id: 'bos',
+    name: 'Battle of the Sexes',
+    description: 'Coordination with conflicting preferences: A prefers O, B prefers F.',
+    params: [
+      { key: 'high', label: 'Preferred outcome', default: 3 },
+      { key: 'low', label: 'Other outcome', default: 2 },
+      { key: 'miss', label: 'Miscoordination', default: 0 },
+    ],
+    build: (p) => ({
+      id: 'bos',
+      name: 'Battle of the Sexes',
+      actsA: ['O', 'F'],
+      actsB: ['O', 'F'],
+      A: [
+        [p.high, p.miss],
+        [p.miss, p.low],
+      ],
+      B: [
+        [p.low, p.miss],
+        [p.miss, p.high],
+      ],
+      zeroSum: false,
+    }),
+  },
+  {
+    id: 'hawkdove',
+    name: 'Chicken / Hawk-Dove',
+    description: 'Resource value V and fight cost C; mixed equilibrium plays Hawk with probability V/C when C > V.',
+    params: [
+      { key: 'V', label: 'Resource value', default: 2, min: 0 },
+      { key: 'C', label: 'Fight cost', default: 4, min: 0 },
+    ],
+    build: (p) => symmetric('hawkdove', 'Chicken / Hawk-Dove', ['Hawk', 'Dove'], [
+      [(p.V - p.C) / 2, p.V],
+      [0, p.V / 2],
+    ]),
+  },
+  {
+    id: 'shapley',
+    name: "Shapley's Game",
+    description: '3x3 general-sum game on which fictitious play cycles without converging.',
+    params: [],
+    build: () => ({
+      id: 'shapley',
+      name: "Shapley's Game",
+      actsA: ['a1', 'a2', 'a3'],
+      actsB: ['b1', 'b2', 'b3'],
+      A: [
+        [1, 0, 0],
+        [0, 1, 0],
+        [0, 0, 1],
+      ],
+      B: [
+        [0, 1, 0],
+        [0, 0, 1],
+        [1, 0, 0],
+      ],
+      zeroSum: false,
+    }),
+  },
+  {
+    id: 'rpsn',
+    name: 'Generalized RPS',
+    description: 'Cyclic n-action RPS: each action beats the next floor((n-1)/2) actions; zero-sum when win = lose.',
+    params: [
+      { key: 'n', label: 'Actions', default: 5, min: 3, max: 12, integer: true },
+      { key: 'win', label: 'Win payoff', default: 1, min: 0 },
+      { key: 'lose', label: 'Loss penalty', default: 1, min: 0 },
+    ],
+    build: (p) => {
+      const n = p.n;
+      const acts = n === 3 ? ['R', 'P', 'S'] : Array.from({ length: n }, (_, i) => `s${i + 1}`);
+      // outcome(i, j) = +1 if i beats j, -1 if j beats i, 0 otherwise
+      const outcome = (i: number, j: number) => {
+        const d = (i - j + n) % n;
+        if (d === 0 || 2 * d === n) return 0;
+        return d < n / 2 ? 1 : -1;
+      };
+      const pay = (o: number) => (o > 0 ? p.win : o < 0 ? -p.lose : 0);
+      const A = acts.map((_, i) => acts.map((__, j) => pay(outcome(i, j))));
+      const B = acts.map((_, i) => acts.map((__, j) => pay(outcome(j, i))));
+      return { id: 'rpsn', name: `Generalized RPS (n=${n})`, actsA: acts, actsB: acts, A, B, zeroSum: p.win === p.lose };
+    },
+  },
+  {
+    id: 'random',
+    name: 'Random Bimatrix',
+    description: 'Payoffs drawn uniformly from [lo, hi] with a fixed seed; zeroSum = 1 sets B = -A.',
+    params: [
+      { key: 'seed', label: 'Seed', default: 1, integer: true },
+      { key: 'rows', label: 'Actions (A)', default: 3, min: 2, max: MAX_RANDOM_ACTIONS, integer: true },
+      { key: 'cols', label: 'Actions (B)', default: 3, min: 2, max: MAX_RANDOM_ACTIONS, integer: true },
+      { key: 'lo', label: 'Min payoff', default: -1 },
+      { key: 'hi', label: 'Max payoff', default: 1 },
+      { key: 'zeroSum', label: 'Zero-sum (0/1)', default: 0, min: 0, max: 1, integer: true },
+    ],
+    build: (p) => {
+      const rng = mulberry32(p.seed);
+      const lo = Math.min(p.lo, p.hi);
+      const span = Math.abs(p.hi - p.lo);
+      const draw = () => Math.round((lo + rng() * span) * 100) / 100;
+      const zeroSum = p.zeroSum === 1;
+      const A = Array.from({ length: p.rows }, () => Array.from({ length: p.cols }, draw));
+      const B = zeroSum ? negate(A) : Array.from({ length: p.rows }, () => Array.from({ length: p.cols }, draw));
+      return {
+        id: 'random',
+        name: `Random ${p.rows}x${p.cols} (seed ${p.seed})`,
+        actsA: Array.from({ length: p.rows }, (_, i) => `a${i + 1}`),
+        actsB: Array.from({ length: p.cols }, (_, j) => `b${j + 1}`),
+        A,
+        B,
+        zeroSum,
+      };
+    },
+  },
+];
+
+export const GAME_FAMILIES: Record<string, GameFamily> = Object.fromEntries(FAMILIES.map((f) => [f.id, f]));
+
+// Fill in defaults and clamp user-supplied values to each parameter's range
+export function resolveFamilyParams(family: GameFamily, raw?: Record<string, any> | null): Record<string, number> {
+  const out: Record<string, number> = {};
+  for (const def of family.params) {
+    const v = raw?.[def.key];
+    let x = v != null && v !== '' && Number.isFinite(Number(v)) ? Number(v) : def.default;
+    if (def.integer) x = Math.round(x);
+    if (def.min != null) x = Math.max(def.min, x);
+    if (def.max != null) x = Math.min(def.max, x);
+    out[def.key] = x;
+  }
+  return out;
+}
+
+export function buildFamilyGame(family: GameFamily, raw?: Record<string, any> | null): GameSpec {
+  const params = resolveFamilyParams(family, raw);
+  const spec = family.build(params);
+  return family.params.length ? { ...spec, params } : spec;
+}
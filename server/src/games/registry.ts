@@ -0,0 +1,107 @@
+import { GameInput, getGameByIdForUser, getGamesByUser } from '../db';
+import { GameId, GameSpec, UserGame } from '../types';
+import { buildFamilyGame, GAME_FAMILIES, GameParamDef } from './library';
+
+const MAX_ACTIONS = 12;
+
+// User games are addressed as "custom-<row id>" so they never collide with built-in ids
+const CUSTOM_PREFIX = 'custom-';
+
+export function customGameId(rowId: number): GameId {
+  return `${CUSTOM_PREFIX}${rowId}`;
+}
+
+export function parseCustomGameId(id: string): number | null {
+  if (!id.startsWith(CUSTOM_PREFIX)) return null;
+  const n = Number(id.slice(CUSTOM_PREFIX.length));
+  return Number.isInteger(n) && n > 0 ? n : null;
+}
+
+export function userGameToSpec(g: UserGame): GameSpec {
+  return {
+    id: customGameId(g.id),
+    name: g.name,
+    actsA: g.actsA,
+    actsB: g.actsB,
+    A: g.A,
+    B: g.B,
+    zeroSum: g.zeroSum,
+  };
+}
+
+export function isBuiltinGame(id: string): boolean {
+  return Object.prototype.hasOwnProperty.call(GAME_FAMILIES, id);
+}
+
+// Resolve a game id visible to the given user (built-ins are visible to everyone).
+// `params` only applies to parameterized built-in families; missing keys take defaults.
+export async function resolveGame(id: string, user_id: number, params?: Record<string, any> | null): Promise<GameSpec | null> {
+  if (isBuiltinGame(id)) return buildFamilyGame(GAME_FAMILIES[id], params);
+  const rowId = parseCustomGameId(id);
+  if (rowId == null) return null;
+  const g = await getGameByIdForUser(user_id, rowId);
+  return g ? userGameToSpec(g) : null;
+}
+
+// The game a stored eval or arena run played: the spec saved with it (a JSON string on raw eval rows), or
+// for runs stored before specs were, the game as it is now, resolved against the run's owner
+export async function resolveRunGame(run: { game: string; user_id: number; gameParams?: string | Record<string, any> | null; spec?: string | GameSpec | null }): Promise<GameSpec | null> {
+  if (run.spec) return typeof run.spec === 'string' ? JSON.parse(run.spec) : run.spec;
+  const params = typeof run.gameParams === 'string' ? JSON.parse(run.gameParams) : run.gameParams;
+  return resolveGame(String(run.game), Number(run.user_id), params);
+}
+
+export type GameListing = GameSpec & { builtin: boolean; description?: string; paramDefs: GameParamDef[] };
+
+export async function listGames(user_id: number): Promise<GameListing[]> {
+  const own = await getGamesByUser(user_id);
+  return [
+    ...Object.values(GAME_FAMILIES).map((f) => ({
+      ...buildFamilyGame(f),
+      name: f.name,
+      builtin: true,
+      description: f.description,
+      paramDefs: f.params,
+    })),
+    ...own.map((g) => ({ ...userGameToSpec(g), builtin: false, paramDefs: [] })),
+  ];
+}
+
+function isMatrix(M: any, rows: number, cols: number): M is number[][] {
+  return Array.isArray(M)
+    && M.length === rows
+    && M.every((row: any) => Array.isArray(row) && row.length === cols && row.every((x: any) => typeof x === 'number' && Number.isFinite(x)));
+}
+
+function isLabels(xs: any): xs is string[] {
+  return Array.isArray(xs) && xs.length >= 2 && xs.length <= MAX_ACTIONS && xs.every((x: any) => typeof x === 'string' && x.trim().length > 0);
+}
+
+// Validate a request body into a storable game; returns an error code on failure
+export function parseGameInput(body: any): { game: GameInput } | { error: string } {
+  const name = (body?.name ?? '').toString().trim();
+  if (!name) return { error: 'name_required' };
+  const { actsA, actsB, A, B } = body || {};
+  if (!isLabels(actsA) || !isLabels(actsB)) return { error: 'invalid_actions' };
+  if (!isMatrix(A, actsA.length, actsB.length) || !isMatrix(B, actsA.length, actsB.length)) {
+    return { error: 'invalid_payoffs' };
+  }
+  const zeroSum = !!body.zeroSum;
+  if (zeroSum) {
+    for (let i = 0; i < A.length; i++) {
+      for (let j = 0; j < A[i].length; j++) {
+        if (Math.abs(A[i][j] + B[i][j]) > 1e-9) return { error: 'not_zero_sum' };
+      }
+    }
+  }
+  return {
+    game: {
+      name,
+      actsA: actsA.map((x) => x.trim()),
+      actsB: actsB.map((x) => x.trim()),
+      A,
+      B,
+      zeroSum,
+    },
+  };
+}
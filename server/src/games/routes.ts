@@ -0,0 +1,76 @@
+import express, { Response } from 'express';
+import { AuthedRequest, requireAuth } from '../auth';
+import { createGameForUser, deleteGameForUser, updateGameForUser } from '../db';
+import { isBuiltinGame, listGames, parseCustomGameId, parseGameInput, resolveGame, userGameToSpec } from './registry';
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+// GET /api/games -> built-in games followed by the user's own games
+router.get('/', async (req: AuthedRequest, res: Response) => {
+  try {
+    const games = await listGames(req.user!.uid);
+    return res.json(games);
+  } catch (err) {
+    return res.status(500).json({ error: 'internal_error' });
+  }
+});
+
+// GET /api/games/:id?<param>=<value> -> parameterized families are built from the query string
+router.get('/:id', async (req: AuthedRequest, res: Response) => {
+  try {
+    const id = String(req.params.id);
+    const game = await resolveGame(id, req.user!.uid, req.query as Record<string, any>);
+    if (!game) return res.status(404).json({ error: 'not_found' });
+    return res.json({ ...game, builtin: isBuiltinGame(id) });
+  } catch (err) {
+    return res.status(500).json({ error: 'internal_error' });
+  }
+});
+
+// POST /api/games { name, actsA, actsB, A, B, zeroSum }
+router.post('/', async (req: AuthedRequest, res: Response) => {
+  try {
+    const parsed = parseGameInput(req.body);
+    if ('error' in parsed) return res.status(400).json({ error: parsed.error });
+    const game = await createGameForUser(req.user!.uid, parsed.game);
+    return res.status(201).json({ ...userGameToSpec(game), builtin: false });
+  } catch (err) {
+    return res.status(500).json({ error: 'internal_error' });
+  }
+});
+
+// PUT /api/games/:id { name, actsA, actsB, A, B, zeroSum }
+router.put('/:id', async (req: AuthedRequest, res: Response) => {
+  try {
+    const id = String(req.params.id);
+    if (isBuiltinGame(id)) return res.status(403).json({ error: 'builtin_readonly' });
+    const rowId = parseCustomGameId(id);
+    if (rowId == null) return res.status(404).json({ error: 'not_found' });
+    const parsed = parseGameInput(req.body);
+    if ('error' in parsed) return res.status(400).json({ error: parsed.error });
+    const ok = await updateGameForUser(req.user!.uid, rowId, parsed.game);
+    if (!ok) return res.status(404).json({ error: 'not_found' });
+    return res.json({ id, ...parsed.game, builtin: false });
+  } catch (err) {
+    return res.status(500).json({ error: 'internal_error' });
+  }
+});
+
+// DELETE /api/games/:id
+router.delete('/:id', async (req: AuthedRequest, res: Response) => {
+  try {
+    const id = String(req.params.id);
+    if (isBuiltinGame(id)) return res.status(403).json({ error: 'builtin_readonly' });
+    const rowId = parseCustomGameId(id);
+    if (rowId == null) return res.status(404).json({ error: 'not_found' });
+    const ok = await deleteGameForUser(req.user!.uid, rowId);
+    if (!ok) return res.status(404).json({ error: 'not_found' });
+    return res.json({ ok: true });
+  } catch (err) {
+    return res.status(500).json({ error: 'internal_error' });
+  }
+});
+
+export { router as gamesRouter };
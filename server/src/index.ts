@@ -3,15 +3,21 @@ import cors from 'cors';
 import cookieParser from 'cookie-parser';
 import dotenv from 'dotenv';
 import bcrypt from 'bcryptjs';
-import { ensureMigrations, getUserByEmail, createUser } from './db';
+import { ensureMigrations, getUserByEmail, createUser, closeInterruptedArenaRuns, closeInterruptedEvalRuns } from './db';
 import { authRouter, requireAuth } from './auth';
 import { arenaRouter } from './arena/routes';
 import { evalRouter } from './eval/routes';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
-import * as arenaStore from './arena/store';
+import { attachArenaNamespace } from './arena/socket';
+import { attachEvalNamespace } from './eval/socket';
+import { startReaper } from './arena/store';
 import { notesRouter } from './notes';
 import { rlRouter } from './rl/routes';
+import { gamesRouter } from './games/routes';
+import { solveRouter } from './solve/routes';
+import { dynamicsRouter } from './dynamics/routes';
+import { algorithmsRouter } from './algorithms/routes';
 
 dotenv.config();
 
@@ -32,6 +38,8 @@ async function runSeed() {
 
 async function start() {
   await ensureMigrations();
+  await closeInterruptedArenaRuns();
+  await closeInterruptedEvalRuns();
 
   const app = express();
 
@@ -49,6 +57,10 @@ async function start() {
   app.use('/api/arena', arenaRouter);
   app.use('/api/eval', evalRouter);
   app.use('/api/rl', rlRouter);
+  app.use('/api/games', gamesRouter);
+  app.use('/api/solve', solveRouter);
+  app.use('/api/dynamics', dynamicsRouter);
+  app.use('/api/algorithms', algorithmsRouter);
 
   app.get('/api/hello', requireAuth, (req: any, res) => {
     const email = req.user?.email || 'user';
@@ -60,21 +72,9 @@ async function start() {
     cors: { origin: 'http://localhost:5173', credentials: true },
   });
 
-  const nsp = io.of('/arena');
-  nsp.on('connection', (socket) => {
-    const run_id = String(socket.handshake.query?.run_id || '');
-    if (run_id) socket.join(run_id);
-    const runner = arenaStore.get(run_id);
-    let unsubscribe: (() => void) | null = null;
-    if (runner) {
-      unsubscribe = runner.onTick((payload) => {
-        nsp.to(run_id).emit('tick', payload);
-      });
-    }
-    socket.on('disconnect', () => {
-      if (unsubscribe) unsubscribe();
-    });
-  });
+  attachArenaNamespace(io);
+  attachEvalNamespace(io);
+  startReaper();
 
   httpServer.listen(PORT, () => {
     console.log(`Server listening on http://localhost:${PORT}`);
@@ -1,25 +1,29 @@
-import express, { Request, Response } from 'express';
-import { requireAuth } from '../auth';
+import express, { Response } from 'express';
+import { AuthedRequest, requireAuth } from '../auth';
+import { parseSchedulable } from '../eval/schedules';
+import { resolveGame } from '../games/registry';
 import { trainSelfPlay, trainSelfPlayDistributed, TrainConfig } from './trainer';
 
 const router = express.Router();
 
 router.use(requireAuth);
 
-// POST /api/rl/train { game, episodes, stepsPerEp, lr?, hidden?, seed? }
-router.post('/train', async (req: Request, res: Response) => {
+// POST /api/rl/train { game, gameParams?, episodes, stepsPerEp, lr?, hidden?, seed? }; lr may be a schedule over episodes
+router.post('/train', async (req: AuthedRequest, res: Response) => {
   try {
     const cfg = req.body as TrainConfig;
-    if (!cfg?.game || !['rps', 'mp', 'pd'].includes(String(cfg.game))) {
+    const spec = cfg?.game ? await resolveGame(String(cfg.game), req.user!.uid, cfg.gameParams) : null;
+    if (!spec) {
       return res.status(400).json({ error: 'invalid_game' });
     }
     const episodes = Number(cfg.episodes) || 50;
     const stepsPerEp = Number(cfg.stepsPerEp) || 200;
-    const lr = cfg.lr != null ? Number(cfg.lr) : undefined;
+    const lr = parseSchedulable(cfg.lr) ?? undefined;
     const hidden = cfg.hidden != null ? Number(cfg.hidden) : undefined;
     const seed = cfg.seed != null ? Number(cfg.seed) : undefined;
-    const result = trainSelfPlay({
-      game: cfg.game,
+    const result = trainSelfPlay(spec, {
+      game: spec.id,
+      gameParams: spec.params,
       episodes,
       stepsPerEp,
       lr,
@@ -36,21 +40,23 @@ router.post('/train', async (req: Request, res: Response) => {
 
 export { router as rlRouter };
 
-// POST /api/rl/train/distributed { game, episodes, stepsPerEp, lr?, hidden?, seed?, workers }
-router.post('/train/distributed', async (req: Request, res: Response) => {
+// POST /api/rl/train/distributed { game, gameParams?, episodes, stepsPerEp, lr?, hidden?, seed?, workers }
+router.post('/train/distributed', async (req: AuthedRequest, res: Response) => {
   try {
     const cfg = req.body as TrainConfig & { workers?: number };
-    if (!cfg?.game || !['rps', 'mp', 'pd'].includes(String(cfg.game))) {
+    const spec = cfg?.game ? await resolveGame(String(cfg.game), req.user!.uid, cfg.gameParams) : null;
+    if (!spec) {
       return res.status(400).json({ error: 'invalid_game' });
     }
     const episodes = Number(cfg.episodes) || 50;
     const stepsPerEp = Number(cfg.stepsPerEp) || 200;
-    const lr = cfg.lr != null ? Number(cfg.lr) : undefined;
+    const lr = parseSchedulable(cfg.lr) ?? undefined;
     const hidden = cfg.hidden != null ? Number(cfg.hidden) : undefined;
     const seed = cfg.seed != null ? Number(cfg.seed) : undefined;
     const workers = cfg.workers != null ? Number(cfg.workers) : 4;
-    const result = trainSelfPlayDistributed({
-      game: cfg.game,
+    const result = trainSelfPlayDistributed(spec, {
+      game: spec.id,
+      gameParams: spec.params,
       episodes,
       stepsPerEp,
       lr,
@@ -1,65 +1,9 @@
 import { v4 as uuidv4 } from 'uuid';
-
-export type RLGameId = 'rps' | 'mp' | 'pd';
+import { scheduleAt } from '../eval/schedules';
+import { GameId, GameSpec, Schedulable } from '../types';
 
 type Vec = number[];
 
-type GameSpec = {
-  id: RLGameId;
-  actsA: string[];
-  actsB: string[];
-  A: number[][];
-  B: number[][];
-  zeroSum: boolean;
-};
-
-const GAMES: Record<RLGameId, GameSpec> = {
-  rps: {
-    id: 'rps',
-    actsA: ['R', 'P', 'S'],
-    actsB: ['R', 'P', 'S'],
-    A: [
-      [0, -1, 1],
-      [1, 0, -1],
-      [-1, 1, 0],
-    ],
-    B: [
-      [0, 1, -1],
-      [-1, 0, 1],
-      [1, -1, 0],
-    ],
-    zeroSum: true,
-  },
-  mp: {
-    id: 'mp',
-    actsA: ['H', 'T'],
-    actsB: ['H', 'T'],
-    A: [
-      [1, -1],
-      [-1, 1],
-    ],
-    B: [
-      [-1, 1],
-      [1, -1],
-    ],
-    zeroSum: true,
-  },
-  pd: {
-    id: 'pd',
-    actsA: ['C', 'D'],
-    actsB: ['C', 'D'],
-    A: [
-      [3, 0],
-      [5, 1],
-    ],
-    B: [
-      [3, 5],
-      [0, 1],
-    ],
-    zeroSum: false,
-  },
-};
-
 function mulberry32(seed: number) {
   let t = seed >>> 0;
   return function () {
@@ -91,7 +35,7 @@ function sampleIndex(p: Vec, rng: () => number): number {
   return p.length - 1;
 }
 
-type Policy = {
+export type Policy = {
   W1: number[][]; // hidden x input
   b1: number[]; // hidden
   W2: number[][]; // acts x hidden
@@ -128,6 +72,28 @@ function forward(pol: Policy, x: Vec) {
   return { hidden, logits, probs };
 }
 
+// Action distribution of a trained policy given the opponent's previous action (0 before the first round, as in training)
+export function policyProbs(pol: Policy, lastOpp: number): Vec {
+  const inputDim = pol.W1[0].length;
+  return forward(pol, [1, ...oneHot(inputDim - 1, lastOpp)]).probs;
+}
+
+function isMatrix(m: any, rows: number, cols: number): boolean {
+  return Array.isArray(m) && m.length === rows
+    && m.every((row: any) => Array.isArray(row) && row.length === cols && row.every((x: any) => Number.isFinite(x)));
+}
+
+// Checks an uploaded policy (policyA or policyB of a downloaded training result) against a player with
+// `acts` actions in `spec`; returns null when the shapes do not match the network trainSelfPlay builds
+export function parsePolicy(raw: any, spec: GameSpec, acts: number): Policy | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const inputDim = Math.max(spec.actsA.length, spec.actsB.length) + 1;
+  const hidden = Array.isArray(raw.b1) ? raw.b1.length : 0;
+  if (!hidden || !isMatrix([raw.b1], 1, hidden) || !isMatrix(raw.W1, hidden, inputDim)) return null;
+  if (!isMatrix(raw.W2, acts, hidden) || !isMatrix([raw.b2], 1, acts)) return null;
+  return { W1: raw.W1, b1: raw.b1, W2: raw.W2, b2: raw.b2 };
+}
+
 function addScaled(a: number[][], b: number[][], scale: number) {
   for (let i = 0; i < a.length; i++) for (let j = 0; j < a[i].length; j++) a[i][j] += b[i][j] * scale;
 }
@@ -146,10 +112,11 @@ type StepCache = {
 type TrainLogs = Array<{ ep: number; avgRewardA: number; avgRewardB: number; winA: number | null }>;
 
 export type TrainConfig = {
-  game: RLGameId;
+  game: GameId;
+  gameParams?: Record<string, number>;
   episodes: number;
   stepsPerEp: number;
-  lr?: number;
+  lr?: Schedulable; // constant or a per-episode schedule
   hidden?: number;
   seed?: number;
   selfPlay?: boolean; // if false, agent B plays Hedge best-response; true = both learned
@@ -176,17 +143,17 @@ export type DistributedTrainResult = {
   actsB: string[];
 };
 
-export function trainSelfPlay(cfg: TrainConfig): TrainResult {
-  const spec = GAMES[cfg.game];
-  if (!spec) throw new Error('invalid_game');
+export function trainSelfPlay(spec: GameSpec, cfg: TrainConfig): TrainResult {
   const rng = mulberry32(cfg.seed ?? 1234);
   const inputDim = Math.max(spec.actsA.length, spec.actsB.length) + 1; // bias + last opp action one-hot
   const hidden = Math.max(8, cfg.hidden ?? 16);
-  const lr = cfg.lr ?? 0.05;
+  const lrSchedule = cfg.lr ?? 0.05;
   const stepsPerEp = Math.max(10, cfg.stepsPerEp);
   const episodes = Math.max(1, cfg.episodes);
   const actsA = spec.actsA.length;
   const actsB = spec.actsB.length;
+  // scale used to map zero-sum rewards onto a [0,1] win rate, as in Eval
+  const maxAbsA = Math.max(1e-9, ...spec.A.flat().map((x) => Math.abs(x)));
 
   let polA = initPolicy(inputDim, hidden, actsA, rng);
   let polB = initPolicy(inputDim, hidden, actsB, rng);
@@ -194,6 +161,7 @@ export function trainSelfPlay(cfg: TrainConfig): TrainResult {
   const logs: TrainLogs = [];
 
   for (let ep = 1; ep <= episodes; ep++) {
+    const lr = scheduleAt(lrSchedule, ep);
     let lastA = 0;
     let lastB = 0;
     const stepsA: StepCache[] = [];
@@ -261,7 +229,7 @@ export function trainSelfPlay(cfg: TrainConfig): TrainResult {
     let winA: number | null = null;
     if (spec.zeroSum) {
       const avgRewardA = rewardSumA / stepsPerEp;
-      winA = (avgRewardA + 1) / 2;
+      winA = (avgRewardA / maxAbsA + 1) / 2;
     }
 
     logs.push({
@@ -274,7 +242,7 @@ export function trainSelfPlay(cfg: TrainConfig): TrainResult {
 
   return {
     run_id: uuidv4(),
-    config: { ...cfg, lr, hidden, stepsPerEp, episodes },
+    config: { ...cfg, lr: lrSchedule, hidden, stepsPerEp, episodes },
     logs,
     policyA: polA,
     policyB: polB,
@@ -283,12 +251,12 @@ export function trainSelfPlay(cfg: TrainConfig): TrainResult {
   };
 }
 
-export function trainSelfPlayDistributed(cfg: TrainConfig & { workers: number }): DistributedTrainResult {
+export function trainSelfPlayDistributed(spec: GameSpec, cfg: TrainConfig & { workers: number }): DistributedTrainResult {
   const workers = Math.max(1, Math.min(16, cfg.workers));
   const baseSeed = cfg.seed ?? 1234;
   const runs = Array.from({ length: workers }, (_, i) => {
     const seed = baseSeed + i;
-    const run = trainSelfPlay({ ...cfg, seed });
+    const run = trainSelfPlay(spec, { ...cfg, seed });
     return { run_id: run.run_id, seed, logs: run.logs };
   });
   // aggregate logs by episode index
@@ -316,7 +284,7 @@ export function trainSelfPlayDistributed(cfg: TrainConfig & { workers: number })
     workerRuns: runs,
     aggregatedLogs,
     config: cfg,
-    actsA: GAMES[cfg.game].actsA,
-    actsB: GAMES[cfg.game].actsB,
+    actsA: spec.actsA,
+    actsB: spec.actsB,
   };
 }
@@ -0,0 +1,156 @@
+import { LpConstraint, solveLp } from './lp';
+
+// A deviation is a linear functional on the joint distribution (flattened row-major);
+// a distribution is in the polytope when every deviation has non-positive expected gain.
+export interface Deviation {
+  player: 'A' | 'B';
+  from: number | null; // recommended action being deviated from; null for coarse deviations
+  to: number;
+  coeffs: number[];
+}
+
+export type CorrelatedKind = 'ce' | 'cce';
+
+export interface DeviationGap {
+  maxIncentive: number; // 0 when the distribution lies inside the polytope
+  worst: Omit<Deviation, 'coeffs'> | null;
+}
+
+export interface JointPoint {
+  joint: number[][];
+  valueA: number;
+  valueB: number;
+}
+
+// The polytopes are highly degenerate (every deviation constraint has rhs 0), which stalls the
+// simplex method; relaxing each one by a distinct tiny slack breaks the ties at negligible cost.
+const PERTURB = 1e-9;
+
+function deviationRows(devs: Deviation[], width: number) {
+  return devs.map((d, idx) => ({
+    coeffs: [...d.coeffs, ...Array(width - d.coeffs.length).fill(0)],
+    op: '<=' as const,
+    rhs: PERTURB * (1 + idx / devs.length),
+  }));
+}
+
+function flatIndex(n: number, i: number, j: number) {
+  return i * n + j;
+}
+
+export function deviations(A: number[][], B: number[][], kind: CorrelatedKind): Deviation[] {
+  const m = A.length;
+  const n = A[0].length;
+  const out: Deviation[] = [];
+  if (kind === 'ce') {
+    // E[u(to, b) - u(from, b) | A told `from`] <= 0, and the same for B's columns
+    for (let from = 0; from < m; from++) {
+      for (let to = 0; to < m; to++) {
+        if (to === from) continue;
+        const coeffs = Array(m * n).fill(0);
+        for (let j = 0; j < n; j++) coeffs[flatIndex(n, from, j)] = A[to][j] - A[from][j];
+        out.push({ player: 'A', from, to, coeffs });
+      }
+    }
+    for (let from = 0; from < n; from++) {
+      for (let to = 0; to < n; to++) {
+        if (to === from) continue;
+        const coeffs = Array(m * n).fill(0);
+        for (let i = 0; i < m; i++) coeffs[flatIndex(n, i, from)] = B[i][to] - B[i][from];
+        out.push({ player: 'B', from, to, coeffs });
+      }
+    }
+  } else {
+    // committing to `to` before seeing the recommendation must not pay off
+    for (let to = 0; to < m; to++) {
+      const coeffs = Array(m * n).fill(0);
+      for (let i = 0; i < m; i++) for (let j = 0; j < n; j++) coeffs[flatIndex(n, i, j)] = A[to][j] - A[i][j];
+      out.push({ player: 'A', from: null, to, coeffs });
+    }
+    for (let to = 0; to < n; to++) {
+      const coeffs = Array(m * n).fill(0);
+      for (let i = 0; i < m; i++) for (let j = 0; j < n; j++) coeffs[flatIndex(n, i, j)] = B[i][to] - B[i][j];
+      out.push({ player: 'B', from: null, to, coeffs });
+    }
+  }
+  return out;
+}
+
+// Largest expected gain any single deviation earns under `sigma` (the epsilon of an epsilon-CE/CCE)
+export function deviationGap(sigma: number[][], devs: Deviation[]): DeviationGap {
+  const flat = sigma.flat();
+  let maxIncentive = 0;
+  let worst: DeviationGap['worst'] = null;
+  for (const d of devs) {
+    const gain = d.coeffs.reduce((acc, c, k) => acc + c * flat[k], 0);
+    if (gain > maxIncentive) {
+      maxIncentive = gain;
+      worst = { player: d.player, from: d.from, to: d.to };
+    }
+  }
+  return { maxIncentive, worst };
+}
+
+function toPoint(A: number[][], B: number[][], flat: number[]): JointPoint {
+  const m = A.length;
+  const n = A[0].length;
+  const joint = Array.from({ length: m }, (_, i) => flat.slice(i * n, (i + 1) * n).map((v) => (Math.abs(v) < 1e-12 ? 0 : v)));
+  let valueA = 0;
+  let valueB = 0;
+  for (let i = 0; i < m; i++) {
+    for (let j = 0; j < n; j++) {
+      valueA += joint[i][j] * A[i][j];
+      valueB += joint[i][j] * B[i][j];
+    }
+  }
+  return { joint, valueA, valueB };
+}
+
+// Extreme point of the polytope optimizing social welfare (sum of both payoffs)
+export function welfareExtreme(A: number[][], B: number[][], devs: Deviation[], maximize: boolean): JointPoint {
+  const m = A.length;
+  const n = A[0].length;
+  const welfare = Array.from({ length: m * n }, (_, k) => A[Math.floor(k / n)][k % n] + B[Math.floor(k / n)][k % n]);
+  const lp = solveLp({
+    objective: welfare,
+    maximize,
+    constraints: [
+      ...deviationRows(devs, m * n),
+      { coeffs: Array(m * n).fill(1), op: '=' as const, rhs: 1 },
+    ],
+  });
+  return toPoint(A, B, lp.x);
+}
+
+// Closest point of the polytope to `sigma` in L1 distance; variables are tau (mn) then |tau - sigma| bounds (mn)
+export function nearestPoint(A: number[][], B: number[][], devs: Deviation[], sigma: number[][]): JointPoint & { l1: number } {
+  const k = A.length * A[0].length;
+  const flat = sigma.flat();
+  const constraints: LpConstraint[] = [
+    ...deviationRows(devs, 2 * k),
+    { coeffs: [...Array(k).fill(1), ...Array(k).fill(0)], op: '=', rhs: 1 },
+  ];
+  for (let c = 0; c < k; c++) {
+    // d_c >= tau_c - sigma_c and d_c >= sigma_c - tau_c
+    const up = Array(2 * k).fill(0);
+    up[c] = 1;
+    up[k + c] = -1;
+    constraints.push({ coeffs: up, op: '<=', rhs: flat[c] });
+    const down = Array(2 * k).fill(0);
+    down[c] = -1;
+    down[k + c] = -1;
+    constraints.push({ coeffs: down, op: '<=', rhs: -flat[c] });
+  }
+  const lp = solveLp({ objective: [...Array(k).fill(0), ...Array(k).fill(1)], constraints });
+  return { ...toPoint(A, B, lp.x.slice(0, k)), l1: lp.value };
+}
+
+export function analyzeJoint(A: number[][], B: number[][], sigma: number[][], kind: CorrelatedKind) {
+  const devs = deviations(A, B, kind);
+  return {
+    gap: deviationGap(sigma, devs),
+    nearest: nearestPoint(A, B, devs, sigma),
+    maxWelfare: welfareExtreme(A, B, devs, true),
+    minWelfare: welfareExtreme(A, B, devs, false),
+  };
+}
@@ -0,0 +1,25 @@
+import { payoffVector } from './nash';
+
+export interface Exploitability {
+  gainA: number; // what A gains by switching to a best response against y
+  gainB: number; // what B gains by switching to a best response against x
+  nashConv: number; // gainA + gainB; zero exactly at a Nash equilibrium
+}
+
+function dot(p: number[], u: number[]): number {
+  return p.reduce((acc, pi, i) => acc + pi * u[i], 0);
+}
+
+// Best-response gain of mixing `p` over the rows of M against the column mix `opp`
+export function bestResponseGain(M: number[][], p: number[], opp: number[]): number {
+  const u = payoffVector(M, opp);
+  return Math.max(0, Math.max(...u) - dot(p, u));
+}
+
+export function exploitability(A: number[][], B: number[][], x: number[], y: number[]): Exploitability {
+  const gainA = bestResponseGain(A, x, y);
+  // B picks columns, so score its actions against A's row mix
+  const uB = A[0].map((_, j) => B.reduce((acc, row, i) => acc + x[i] * row[j], 0));
+  const gainB = Math.max(0, Math.max(...uB) - dot(y, uB));
+  return { gainA, gainB, nashConv: gainA + gainB };
+}
@@ -0,0 +1,137 @@
+// Dense two-phase simplex for the small LPs that come up in matrix games.
+// All variables are non-negative; free variables must be split by the caller.
+
+export interface LpConstraint {
+  coeffs: number[];
+  op: '<=' | '>=' | '=';
+  rhs: number;
+}
+
+export interface LpProblem {
+  objective: number[];
+  maximize?: boolean;
+  constraints: LpConstraint[];
+}
+
+export interface LpResult {
+  status: 'optimal' | 'infeasible' | 'unbounded';
+  x: number[];
+  value: number;
+}
+
+const EPS = 1e-9;
+const MAX_PIVOTS = 50000;
+const DEGENERATE_RUN = 50;
+
+type Tableau = {
+  T: number[][]; // constraint rows, last column is the right-hand side
+  basis: number[]; // basic column per row
+};
+
+function pivot(tab: Tableau, row: number, col: number) {
+  const { T } = tab;
+  const width = T[row].length;
+  const pv = T[row][col];
+  for (let k = 0; k < width; k++) T[row][k] /= pv;
+  for (let r = 0; r < T.length; r++) {
+    if (r === row) continue;
+    const f = T[r][col];
+    if (Math.abs(f) < 1e-15) continue;
+    for (let k = 0; k < width; k++) T[r][k] -= f * T[row][k];
+  }
+  tab.basis[row] = col;
+}
+
+// Maximize c.x over the current tableau; `allowed` masks columns that may enter.
+// Dantzig's rule picks the entering column, falling back to Bland's rule after a run of
+// degenerate pivots so that the method cannot cycle.
+function optimize(tab: Tableau, c: number[], allowed: (j: number) => boolean): 'optimal' | 'unbounded' {
+  const { T, basis } = tab;
+  const rhs = T[0]?.length - 1;
+  let degenerate = 0;
+  for (let it = 0; it < MAX_PIVOTS; it++) {
+    const bland = degenerate > DEGENERATE_RUN;
+    const isBasic = new Set(basis);
+    let enter = -1;
+    let bestGain = EPS;
+    for (let j = 0; j < rhs; j++) {
+      if (!allowed(j) || isBasic.has(j)) continue;
+      let z = 0;
+      for (let r = 0; r < T.length; r++) z += c[basis[r]] * T[r][j];
+      const gain = c[j] - z;
+      if (gain > bestGain) {
+        enter = j;
+        bestGain = gain;
+        if (bland) break;
+      }
+    }
+    if (enter < 0) return 'optimal';
+    let leave = -1;
+    let best = Infinity;
+    for (let r = 0; r < T.length; r++) {
+      if (T[r][enter] <= EPS) continue;
+      const ratio = T[r][rhs] / T[r][enter];
+      if (ratio < best - EPS || (Math.abs(ratio - best) <= EPS && basis[r] < basis[leave])) {
+        best = ratio;
+        leave = r;
+      }
+    }
+    if (leave < 0) return 'unbounded';
+    degenerate = best <= EPS ? degenerate + 1 : 0;
+    pivot(tab, leave, enter);
+  }
+  throw new Error('lp_iteration_limit');
+}
+
+export function solveLp(p: LpProblem): LpResult {
+  const n = p.objective.length;
+  const rows = p.constraints.map((c) => (c.rhs < 0
+    ? { coeffs: c.coeffs.map((x) => -x), op: (c.op === '<=' ? '>=' : c.op === '>=' ? '<=' : '=') as LpConstraint['op'], rhs: -c.rhs }
+    : c));
+  const nSlack = rows.filter((c) => c.op !== '=').length;
+  const nArt = rows.filter((c) => c.op !== '<=').length;
+  const width = n + nSlack + nArt;
+  const T: number[][] = [];
+  const basis: number[] = [];
+  let slack = n;
+  let art = n + nSlack;
+  for (const c of rows) {
+    const row = Array(width + 1).fill(0);
+    for (let j = 0; j < n; j++) row[j] = c.coeffs[j] ?? 0;
+    row[width] = c.rhs;
+    if (c.op === '<=') {
+      row[slack] = 1;
+      basis.push(slack++);
+    } else {
+      if (c.op === '>=') row[slack++] = -1;
+      row[art] = 1;
+      basis.push(art++);
+    }
+    T.push(row);
+  }
+  const tab: Tableau = { T, basis };
+  const isArt = (j: number) => j >= n + nSlack;
+
+  // Phase 1: drive the artificial variables to zero
+  if (nArt > 0) {
+    const c1 = Array(width).fill(0).map((_, j) => (isArt(j) ? -1 : 0));
+    optimize(tab, c1, () => true);
+    const infeas = T.reduce((acc, row, r) => acc + (isArt(basis[r]) ? row[width] : 0), 0);
+    if (infeas > 1e-7) return { status: 'infeasible', x: Array(n).fill(0), value: NaN };
+    // pivot remaining (zero-valued) artificials out of the basis where possible
+    for (let r = 0; r < T.length; r++) {
+      if (!isArt(basis[r])) continue;
+      const col = T[r].findIndex((v, j) => j < n + nSlack && Math.abs(v) > EPS);
+      if (col >= 0) pivot(tab, r, col);
+    }
+  }
+
+  // Phase 2: original objective, artificials may not re-enter
+  const sign = p.maximize ? 1 : -1;
+  const c2 = Array(width).fill(0).map((_, j) => (j < n ? sign * p.objective[j] : 0));
+  const status = optimize(tab, c2, (j) => !isArt(j));
+  const x = Array(n).fill(0);
+  for (let r = 0; r < T.length; r++) if (basis[r] < n) x[basis[r]] = T[r][width];
+  const value = p.objective.reduce((acc, cj, j) => acc + cj * x[j], 0);
+  return { status, x, value: status === 'optimal' ? value : NaN };
+}
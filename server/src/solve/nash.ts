@@ -0,0 +1,272 @@
+import { transpose } from '../eval/match';
+import { solveLp } from './lp';
+
+type Vec = number[];
+
+export interface NashEquilibrium {
+  x: Vec; // mixed strategy of A (rows)
+  y: Vec; // mixed strategy of B (columns)
+  valueA: number;
+  valueB: number;
+  supportA: number[];
+  supportB: number[];
+}
+
+export interface LemkeHowsonStep {
+  entering: number;
+  leaving: number;
+}
+
+export interface LemkeHowsonPath {
+  droppedLabel: number;
+  steps: LemkeHowsonStep[];
+  equilibrium: NashEquilibrium | null;
+}
+
+export interface MinimaxSolution {
+  x: Vec;
+  y: Vec;
+  value: number; // game value for A
+}
+
+const TOL = 1e-9;
+// support enumeration is exponential; beyond this many support pairs we stop and flag the result
+const MAX_SUPPORT_PAIRS = 200000;
+
+export function payoffVector(M: number[][], opp: Vec): Vec {
+  return M.map((row) => row.reduce((acc, mij, j) => acc + mij * opp[j], 0));
+}
+
+function bilinear(x: Vec, M: number[][], y: Vec): number {
+  return x.reduce((acc, xi, i) => acc + xi * M[i].reduce((s, mij, j) => s + mij * y[j], 0), 0);
+}
+
+function support(p: Vec): number[] {
+  return p.map((v, i) => (v > TOL ? i : -1)).filter((i) => i >= 0);
+}
+
+export function makeEquilibrium(A: number[][], B: number[][], x: Vec, y: Vec): NashEquilibrium {
+  const clean = (p: Vec) => {
+    const q = p.map((v) => (Math.abs(v) < TOL ? 0 : v));
+    const s = q.reduce((a, b) => a + b, 0) || 1;
+    return q.map((v) => v / s);
+  };
+  const xc = clean(x);
+  const yc = clean(y);
+  return {
+    x: xc,
+    y: yc,
+    valueA: bilinear(xc, A, yc),
+    valueB: bilinear(xc, B, yc),
+    supportA: support(xc),
+    supportB: support(yc),
+  };
+}
+
+// Solve the square system M z = b with partial pivoting; null when singular
+function solveLinear(M: number[][], b: Vec): Vec | null {
+  const n = b.length;
+  const a = M.map((row, i) => [...row, b[i]]);
+  for (let c = 0; c < n; c++) {
+    let p = c;
+    for (let r = c + 1; r < n; r++) if (Math.abs(a[r][c]) > Math.abs(a[p][c])) p = r;
+    if (Math.abs(a[p][c]) < 1e-12) return null;
+    [a[c], a[p]] = [a[p], a[c]];
+    for (let r = 0; r < n; r++) {
+      if (r === c) continue;
+      const f = a[r][c] / a[c][c];
+      if (f === 0) continue;
+      for (let k = c; k <= n; k++) a[r][k] -= f * a[c][k];
+    }
+  }
+  return a.map((row, i) => row[n] / row[i]);
+}
+
+function subsets(n: number, k: number): number[][] {
+  const out: number[][] = [];
+  const cur: number[] = [];
+  const rec = (start: number) => {
+    if (cur.length === k) { out.push([...cur]); return; }
+    for (let i = start; i < n; i++) { cur.push(i); rec(i + 1); cur.pop(); }
+  };
+  rec(0);
+  return out;
+}
+
+// Mixed strategy over `cols` (padded to `size`) that makes every row in `rows` of M indifferent
+function indifferentMix(M: number[][], rows: number[], cols: number[], size: number): { p: Vec; v: number } | null {
+  const k = rows.length;
+  // unknowns: p_cols (k) and v; equations: M[i][cols] p - v = 0 for i in rows, sum p = 1
+  const sys = rows.map((i) => [...cols.map((j) => M[i][j]), -1]);
+  sys.push([...cols.map(() => 1), 0]);
+  const rhs = [...rows.map(() => 0), 1];
+  const z = solveLinear(sys, rhs);
+  if (!z) return null;
+  const p = Array(size).fill(0);
+  for (let t = 0; t < k; t++) {
+    if (z[t] < -TOL) return null;
+    p[cols[t]] = Math.max(0, z[t]);
+  }
+  return { p, v: z[k] };
+}
+
+function isBestResponse(u: Vec, sup: number[], tol = 1e-7): boolean {
+  const best = Math.max(...u);
+  return sup.every((i) => u[i] >= best - tol);
+}
+
+function sameEquilibrium(a: NashEquilibrium, b: NashEquilibrium): boolean {
+  const close = (p: Vec, q: Vec) => p.every((v, i) => Math.abs(v - q[i]) < 1e-6);
+  return close(a.x, b.x) && close(a.y, b.y);
+}
+
+export function pushUnique(list: NashEquilibrium[], eq: NashEquilibrium) {
+  if (!list.some((e) => sameEquilibrium(e, eq))) list.push(eq);
+}
+
+// Enumerate equal-size support pairs (complete for nondegenerate games)
+export function supportEnumeration(A: number[][], B: number[][]): { equilibria: NashEquilibrium[]; truncated: boolean } {
+  const m = A.length;
+  const n = A[0].length;
+  const Bt = transpose(B);
+  const equilibria: NashEquilibrium[] = [];
+  let visited = 0;
+  for (let k = 1; k <= Math.min(m, n); k++) {
+    const rowSets = subsets(m, k);
+    const colSets = subsets(n, k);
+    for (const I of rowSets) {
+      for (const J of colSets) {
+        if (++visited > MAX_SUPPORT_PAIRS) return { equilibria, truncated: true };
+        // y makes A indifferent over I; x makes B indifferent over J
+        const ys = indifferentMix(A, I, J, n);
+        if (!ys) continue;
+        const xs = indifferentMix(Bt, J, I, m);
+        if (!xs) continue;
+        if (!isBestResponse(payoffVector(A, ys.p), I)) continue;
+        if (!isBestResponse(payoffVector(Bt, xs.p), J)) continue;
+        pushUnique(equilibria, makeEquilibrium(A, B, xs.p, ys.p));
+      }
+    }
+  }
+  return { equilibria, truncated: false };
+}
+
+type LhTableau = {
+  T: number[][]; // rows x (m + n + 1); columns are labels, last is rhs
+  basis: number[]; // label basic in each row
+};
+
+// Pivot `entering` into the tableau and return the label that leaves
+function lhPivot(tab: LhTableau, entering: number): number {
+  const { T, basis } = tab;
+  const rhs = T[0].length - 1;
+  let row = -1;
+  let best = Infinity;
+  for (let r = 0; r < T.length; r++) {
+    if (T[r][entering] <= TOL) continue;
+    const ratio = T[r][rhs] / T[r][entering];
+    if (ratio < best - 1e-12 || (Math.abs(ratio - best) <= 1e-12 && basis[r] < basis[row])) {
+      best = ratio;
+      row = r;
+    }
+  }
+  if (row < 0) throw new Error('lh_unbounded');
+  const pv = T[row][entering];
+  for (let k = 0; k <= rhs; k++) T[row][k] /= pv;
+  for (let r = 0; r < T.length; r++) {
+    if (r === row) continue;
+    const f = T[r][entering];
+    if (f === 0) continue;
+    for (let k = 0; k <= rhs; k++) T[r][k] -= f * T[row][k];
+  }
+  const leaving = basis[row];
+  basis[row] = entering;
+  return leaving;
+}
+
+// Labels 0..m-1 are A's actions, m..m+n-1 are B's actions
+export function lemkeHowson(A: number[][], B: number[][], droppedLabel: number, maxSteps = 1000): LemkeHowsonPath {
+  const m = A.length;
+  const n = A[0].length;
+  const L = m + n;
+  // payoffs must be positive for the polytopes to be bounded
+  const shift = (M: number[][]) => {
+    const lo = Math.min(...M.flat());
+    return lo > 0 ? M : M.map((row) => row.map((v) => v - lo + 1));
+  };
+  const Ap = shift(A);
+  const Bp = shift(B);
+  // P = { x >= 0 : B^T x <= 1 } with slack labels m+j; Q = { y >= 0 : A y <= 1 } with slack labels i
+  const P: LhTableau = {
+    T: Array.from({ length: n }, (_, j) => {
+      const row = Array(L + 1).fill(0);
+      for (let i = 0; i < m; i++) row[i] = Bp[i][j];
+      row[m + j] = 1;
+      row[L] = 1;
+      return row;
+    }),
+    basis: Array.from({ length: n }, (_, j) => m + j),
+  };
+  const Q: LhTableau = {
+    T: Array.from({ length: m }, (_, i) => {
+      const row = Array(L + 1).fill(0);
+      for (let j = 0; j < n; j++) row[m + j] = Ap[i][j];
+      row[i] = 1;
+      row[L] = 1;
+      return row;
+    }),
+    basis: Array.from({ length: m }, (_, i) => i),
+  };
+
+  const steps: LemkeHowsonStep[] = [];
+  // x-labels are nonbasic in P initially, so dropping one of them starts in P
+  let tab = droppedLabel < m ? P : Q;
+  let entering = droppedLabel;
+  try {
+    for (let s = 0; s < maxSteps; s++) {
+      const leaving = lhPivot(tab, entering);
+      steps.push({ entering, leaving });
+      if (leaving === droppedLabel) {
+        const x = Array(m).fill(0);
+        const y = Array(n).fill(0);
+        P.basis.forEach((lab, r) => { if (lab < m) x[lab] = P.T[r][L]; });
+        Q.basis.forEach((lab, r) => { if (lab >= m) y[lab - m] = Q.T[r][L]; });
+        return { droppedLabel, steps, equilibrium: makeEquilibrium(A, B, x, y) };
+      }
+      entering = leaving;
+      tab = tab === P ? Q : P;
+    }
+  } catch {
+    // degenerate pivots can leave the polytope; report the partial path
+  }
+  return { droppedLabel, steps, equilibrium: null };
+}
+
+// Exact minimax strategies of a zero-sum game (B = -A) via two LPs
+export function solveZeroSum(A: number[][]): MinimaxSolution {
+  const m = A.length;
+  const n = A[0].length;
+  // A: max v s.t. (x^T A)_j >= v for all j, sum x = 1; v = vp - vn
+  const lpA = solveLp({
+    objective: [...Array(m).fill(0), 1, -1],
+    maximize: true,
+    constraints: [
+      ...Array.from({ length: n }, (_, j) => ({ coeffs: [...A.map((row) => row[j]), -1, 1], op: '>=' as const, rhs: 0 })),
+      { coeffs: [...Array(m).fill(1), 0, 0], op: '=' as const, rhs: 1 },
+    ],
+  });
+  // B: min w s.t. (A y)_i <= w for all i, sum y = 1
+  const lpB = solveLp({
+    objective: [...Array(n).fill(0), 1, -1],
+    maximize: false,
+    constraints: [
+      ...A.map((row) => ({ coeffs: [...row, -1, 1], op: '<=' as const, rhs: 0 })),
+      { coeffs: [...Array(n).fill(1), 0, 0], op: '=' as const, rhs: 1 },
+    ],
+  });
+  return {
+    x: lpA.x.slice(0, m),
+    y: lpB.x.slice(0, n),
+    value: lpA.value,
+  };
+}
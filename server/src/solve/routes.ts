@@ -0,0 +1,119 @@
+import express, { Response } from 'express';
+import { AuthedRequest, requireAuth } from '../auth';
+import { getEvalRunById } from '../db';
+import { countEvalJointActions, jointReplaySteps, storedRunConfig } from '../eval/runner';
+import { resolveGame, resolveRunGame } from '../games/registry';
+import { GameSpec } from '../types';
+import { analyzeJoint } from './correlated';
+import { lemkeHowson, makeEquilibrium, pushUnique, solveZeroSum, supportEnumeration } from './nash';
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+const MAX_RAW_ACTIONS = 12;
+const MAX_REPLAY_STEPS = 2000000; // eval steps replayed to count joint actions
+
+function isMatrix(M: any): M is number[][] {
+  return Array.isArray(M)
+    && M.length >= 1 && M.length <= MAX_RAW_ACTIONS
+    && M.every((row: any) => Array.isArray(row) && row.length === M[0].length && row.length >= 1 && row.length <= MAX_RAW_ACTIONS
+      && row.every((x: any) => typeof x === 'number' && Number.isFinite(x)));
+}
+
+// Accept either a registered game ({ game, gameParams }) or raw matrices ({ A, B? }); B defaults to -A
+export async function gameFromBody(body: any, user_id: number): Promise<GameSpec | null> {
+  if (body?.game) return resolveGame(String(body.game), user_id, body.gameParams);
+  const { A } = body || {};
+  if (!isMatrix(A)) return null;
+  const B = body.B ?? A.map((row: number[]) => row.map((v) => -v));
+  if (!isMatrix(B) || B.length !== A.length || B[0].length !== A[0].length) return null;
+  const zeroSum = A.every((row, i) => row.every((v, j) => Math.abs(v + B[i][j]) < 1e-9));
+  return {
+    id: 'raw',
+    name: 'Raw bimatrix',
+    actsA: A.map((_, i) => `a${i + 1}`),
+    actsB: A[0].map((_, j) => `b${j + 1}`),
+    A,
+    B,
+    zeroSum,
+  };
+}
+
+// POST /api/solve/nash { game, gameParams? } | { A, B? }
+router.post('/nash', async (req: AuthedRequest, res: Response) => {
+  try {
+    const spec = await gameFromBody(req.body, req.user!.uid);
+    if (!spec) return res.status(400).json({ error: 'invalid_game' });
+    const { A, B } = spec;
+    const { equilibria, truncated } = supportEnumeration(A, B);
+    const labels = A.length + A[0].length;
+    const lemkeHowsonPaths = Array.from({ length: labels }, (_, k) => lemkeHowson(A, B, k));
+    // Lemke-Howson may reach equilibria that degenerate support enumeration misses
+    for (const p of lemkeHowsonPaths) if (p.equilibrium) pushUnique(equilibria, p.equilibrium);
+    let minimax = null;
+    if (spec.zeroSum) {
+      const mm = solveZeroSum(A);
+      minimax = { ...makeEquilibrium(A, B, mm.x, mm.y), value: mm.value };
+    }
+    return res.json({
+      game: { id: spec.id, name: spec.name, actsA: spec.actsA, actsB: spec.actsB, zeroSum: spec.zeroSum, params: spec.params },
+      equilibria,
+      truncated,
+      lemkeHowson: lemkeHowsonPaths,
+      minimax,
+    });
+  } catch (err) {
+    console.error('solve/nash error', err);
+    return res.status(500).json({ error: 'internal_error' });
+  }
+});
+
+function normalizeJoint(joint: any, rows: number, cols: number): number[][] | null {
+  if (!Array.isArray(joint) || joint.length !== rows) return null;
+  if (!joint.every((row: any) => Array.isArray(row) && row.length === cols && row.every((x: any) => typeof x === 'number' && Number.isFinite(x) && x >= 0))) {
+    return null;
+  }
+  const total = joint.flat().reduce((a: number, b: number) => a + b, 0);
+  if (total <= 0) return null;
+  return joint.map((row: number[]) => row.map((x) => x / total));
+}
+
+// POST /api/solve/correlated { game, gameParams?, joint } | { A, B?, joint } | { eval_run_id, seed?, ep? }
+// `joint` holds counts or probabilities (e.g. arena jointCounts); eval runs are replayed to count joint actions,
+// up to MAX_REPLAY_STEPS steps (400 run_too_large beyond; narrow it with seed/ep).
+router.post('/correlated', async (req: AuthedRequest, res: Response) => {
+  try {
+    const uid = req.user!.uid;
+    const { eval_run_id, seed, ep } = req.body || {};
+    let spec: GameSpec | null;
+    let counts: number[][] | null = null;
+    if (eval_run_id != null) {
+      const run = await getEvalRunById(Number(eval_run_id));
+      if (!run || Number(run.user_id) !== uid) return res.status(404).json({ error: 'not_found' });
+      spec = await resolveRunGame(run);
+      if (!spec) return res.status(410).json({ error: 'game_unavailable' });
+      const cfg = storedRunConfig(run);
+      const filter = { seed: seed != null ? Number(seed) : undefined, ep: ep != null ? Number(ep) : undefined };
+      if (jointReplaySteps(cfg, filter) > MAX_REPLAY_STEPS) return res.status(400).json({ error: 'run_too_large' });
+      counts = await countEvalJointActions(spec, cfg, filter);
+    } else {
+      spec = await gameFromBody(req.body, uid);
+      if (!spec) return res.status(400).json({ error: 'invalid_game' });
+      counts = req.body.joint;
+    }
+    const sigma = normalizeJoint(counts, spec.A.length, spec.A[0].length);
+    if (!sigma) return res.status(400).json({ error: 'invalid_joint' });
+    return res.json({
+      game: { id: spec.id, name: spec.name, actsA: spec.actsA, actsB: spec.actsB, zeroSum: spec.zeroSum, params: spec.params },
+      joint: sigma,
+      ce: analyzeJoint(spec.A, spec.B, sigma, 'ce'),
+      cce: analyzeJoint(spec.A, spec.B, sigma, 'cce'),
+    });
+  } catch (err) {
+    console.error('solve/correlated error', err);
+    return res.status(500).json({ error: 'internal_error' });
+  }
+});
+
+export { router as solveRouter };
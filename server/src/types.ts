@@ -17,9 +17,53 @@ export interface Note {
   created_at: string;
 }
 
-export type GameId = 'rps' | 'mp' | 'pd';
+export type GameId = string;
 
-export type AlgId = 'hedge' | 'regret' | 'fp';
+export interface GameSpec {
+  id: GameId;
+  name: string;
+  actsA: string[];
+  actsB: string[];
+  A: number[][]; // payoff for A
+  B: number[][]; // payoff for B
+  zeroSum: boolean;
+  params?: Record<string, number>; // resolved parameters for parameterized built-in families
+}
+
+export interface UserGame {
+  id: number;
+  user_id: number;
+  name: string;
+  actsA: string[];
+  actsB: string[];
+  A: number[][];
+  B: number[][];
+  zeroSum: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// A schedulable hyperparameter is either a plain number (constant) or a schedule whose `value` is the rate at t = 1
+export type ScheduleKind = 'constant' | 'inv' | 'inv_sqrt' | 'exp' | 'piecewise';
+
+export interface ScheduleSpec {
+  kind: ScheduleKind;
+  value: number;
+  decay?: number; // exp: value * exp(-decay * (t - 1))
+  steps?: number[]; // piecewise: from steps[i] on the rate is values[i]; `value` applies before steps[0]
+  values?: number[];
+}
+
+export type Schedulable = number | ScheduleSpec;
+
+// Hyperparameter block of one learner, keyed by the registry schema
+export type AlgParams = Record<string, Schedulable>;
+
+// What learners observe each round: the opponent's mixed strategy, its sampled action, or only their own reward
+export type FeedbackMode = 'expected' | 'sampled' | 'bandit';
+
+// Learner ids are the keys of the algorithm registry (eval/algos.ts)
+export type AlgId = string;
 
 export interface EvalRun {
   id: number;
@@ -31,6 +75,11 @@ export interface EvalRun {
   episodes: number;
   stepsPerEp: number;
   lr?: number | null;
+  gameParams?: Record<string, number> | null;
+  // resolved hyperparameters of each learner (JSON in the table); null for runs stored before the registry
+  paramsA?: AlgParams | null;
+  paramsB?: AlgParams | null;
+  feedback?: FeedbackMode | null; // null on runs stored before the option existed ('expected')
   created_at: string;
 }
 
@@ -43,6 +92,18 @@ export interface EvalMetricRow {
   avgRewardA: number;
   coopRate: number | null;
   l2Dist: number | null;
+  // best-response gains against the final strategies (last iterate) and the episode-average strategies
+  exploitA: number | null;
+  exploitB: number | null;
+  nashConv: number | null;
+  avgExploitA: number | null;
+  avgExploitB: number | null;
+  avgNashConv: number | null;
+  // final and episode-average strategies; null on rows written before they were recorded
+  pA: number[] | null;
+  pB: number[] | null;
+  avgPA: number[] | null;
+  avgPB: number[] | null;
   created_at: string;
 }
 
@@ -57,5 +118,9 @@ export interface EvalSummaryRow {
   coopRate_std: number | null;
   l2Dist_mean: number | null;
   l2Dist_std: number | null;
+  nashConv_mean: number | null;
+  nashConv_std: number | null;
+  avgNashConv_mean: number | null;
+  avgNashConv_std: number | null;
   created_at: string;
 }